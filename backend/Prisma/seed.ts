@@ -1,11 +1,52 @@
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { ALL_PERMISSIONS, SUPER_ADMIN_PERMISSION } from '../src/config/permissions';
 
 const prisma = new PrismaClient();
 
 async function main() {
   console.log('🌱 Seeding database...');
 
+  // Accounts from before email verification existed were never sent a link, so treat them as verified.
+  // Registration sends every new applicant one, so only those older accounts (and staff) match.
+  const { count: verifiedAccounts } = await prisma.user.updateMany({
+    where: {
+      emailVerified: false,
+      tokens: { none: { type: 'EMAIL_VERIFICATION' } }
+    },
+    data: {
+      emailVerified: true,
+      emailVerifiedAt: new Date()
+    }
+  });
+
+  if (verifiedAccounts > 0) {
+    console.log(`✅ Marked ${verifiedAccounts} existing accounts as verified`);
+  }
+
+  // Before the permission catalogue every admin could do everything. Until someone holds the wildcard,
+  // existing admins keep that access and the earliest becomes the super admin who can hand it out.
+  const superAdmins = await prisma.adminUser.count({
+    where: { permissions: { has: SUPER_ADMIN_PERMISSION } }
+  });
+
+  if (superAdmins === 0) {
+    const admins = await prisma.adminUser.findMany({
+      orderBy: { createdAt: 'asc' }
+    });
+
+    for (const [index, admin] of admins.entries()) {
+      await prisma.adminUser.update({
+        where: { id: admin.id },
+        data: { permissions: index === 0 ? [SUPER_ADMIN_PERMISSION] : ALL_PERMISSIONS }
+      });
+    }
+
+    if (admins.length > 0) {
+      console.log(`✅ Moved ${admins.length} existing admins to the permission catalogue`);
+    }
+  }
+
   // Create admin user
   const hashedPassword = await bcrypt.hash('admin123', 12);
   
@@ -20,10 +61,11 @@ async function main() {
       phone: '+234-123-456-7890',
       role: 'ADMIN',
       status: 'ACTIVE',
+      emailVerified: true,
       adminUser: {
         create: {
           department: 'Administration',
-          permissions: ['MANAGE_STUDENTS', 'MANAGE_COURSES', 'VIEW_REPORTS']
+          permissions: ['*'] // Super admin: implies every permission
         }
       }
     },
@@ -48,6 +90,7 @@ async function main() {
       phone: '+234-987-654-3210',
       role: 'STUDENT',
       status: 'ACTIVE',
+      emailVerified: true,
       student: {
         create: {
           dateOfBirth: new Date('1995-06-15'),
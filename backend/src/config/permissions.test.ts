@@ -0,0 +1,46 @@
+import {
+  PERMISSIONS,
+  SUPER_ADMIN_PERMISSION,
+  hasPermissions,
+  isSuperAdmin,
+  unassignablePermissions
+} from './permissions';
+
+describe('hasPermissions', () => {
+  it('requires every permission', () => {
+    expect(hasPermissions([PERMISSIONS.MANAGE_USERS], [PERMISSIONS.MANAGE_USERS])).toBe(true);
+    expect(hasPermissions([PERMISSIONS.MANAGE_USERS], [PERMISSIONS.MANAGE_USERS, PERMISSIONS.VIEW_REPORTS])).toBe(false);
+  });
+
+  it('lets the wildcard stand in for any permission', () => {
+    expect(hasPermissions([SUPER_ADMIN_PERMISSION], [PERMISSIONS.MANAGE_PAYMENTS])).toBe(true);
+  });
+});
+
+describe('unassignablePermissions', () => {
+  it('allows passing on permissions the caller holds', () => {
+    const granted = [PERMISSIONS.MANAGE_USERS, PERMISSIONS.VIEW_REPORTS];
+
+    expect(unassignablePermissions(granted, [PERMISSIONS.VIEW_REPORTS])).toEqual([]);
+    expect(unassignablePermissions(granted, [])).toEqual([]);
+  });
+
+  it('rejects permissions the caller does not hold', () => {
+    expect(unassignablePermissions(
+      [PERMISSIONS.MANAGE_USERS],
+      [PERMISSIONS.MANAGE_USERS, PERMISSIONS.MANAGE_PAYMENTS]
+    )).toEqual([PERMISSIONS.MANAGE_PAYMENTS]);
+  });
+
+  it('only lets super admins grant the wildcard', () => {
+    expect(unassignablePermissions([PERMISSIONS.MANAGE_USERS], [SUPER_ADMIN_PERMISSION])).toEqual([SUPER_ADMIN_PERMISSION]);
+    expect(unassignablePermissions([SUPER_ADMIN_PERMISSION], [SUPER_ADMIN_PERMISSION, PERMISSIONS.MANAGE_USERS])).toEqual([]);
+  });
+});
+
+describe('isSuperAdmin', () => {
+  it('checks for the wildcard', () => {
+    expect(isSuperAdmin([SUPER_ADMIN_PERMISSION])).toBe(true);
+    expect(isSuperAdmin(Object.values(PERMISSIONS))).toBe(false);
+  });
+});
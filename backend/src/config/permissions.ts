@@ -0,0 +1,38 @@
+// Permission catalogue for AdminUser.permissions
+export const PERMISSIONS = {
+  MANAGE_REGISTRATIONS: 'MANAGE_REGISTRATIONS', // review and approve/reject registrations
+  MANAGE_STUDENTS: 'MANAGE_STUDENTS',           // view and manage student records
+  MANAGE_COURSES: 'MANAGE_COURSES',             // create and edit courses, modules and lessons
+  MANAGE_VIDEOS: 'MANAGE_VIDEOS',               // manage the YouTube video library
+  MANAGE_USERS: 'MANAGE_USERS',                 // create admins, change roles, suspend accounts
+  MANAGE_PAYMENTS: 'MANAGE_PAYMENTS',           // coupons, scholarships and payment records
+  VIEW_REPORTS: 'VIEW_REPORTS'                  // platform summary and revenue reports
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+// Wildcard granted to super admins; implies every permission
+export const SUPER_ADMIN_PERMISSION = '*';
+
+export const ALL_PERMISSIONS: string[] = Object.values(PERMISSIONS);
+
+// Check that every required permission is granted
+export const hasPermissions = (granted: string[], required: string[]): boolean => {
+  if (granted.includes(SUPER_ADMIN_PERMISSION)) {
+    return true;
+  }
+
+  return required.every(permission => granted.includes(permission));
+};
+
+export const isSuperAdmin = (granted: string[]): boolean => granted.includes(SUPER_ADMIN_PERMISSION);
+
+// Permissions in `changed` that an admin holding `granted` may not hand out or take away.
+// Admins can only pass on what they hold themselves, so only super admins can grant the wildcard.
+export const unassignablePermissions = (granted: string[], changed: string[]): string[] => {
+  if (isSuperAdmin(granted)) {
+    return [];
+  }
+
+  return changed.filter(permission => !granted.includes(permission));
+};
@@ -3,6 +3,7 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import compression from 'compression';
+import cookieParser from 'cookie-parser';
 import rateLimit from 'express-rate-limit';
 
 // Routes
@@ -13,10 +14,18 @@ import adminRoutes from './routes/admin';
 import courseRoutes from './routes/courses';
 import progressRoutes from './routes/progress';
 import videoRoutes from './routes/videos';
+import paymentRoutes from './routes/payments';
+import invoiceRoutes from './routes/invoices';
+import refundRoutes from './routes/refunds';
+import fileRoutes from './routes/files';
 
 // Middleware
 import { errorHandler } from './middleware/errorHandler';
 
+// Background jobs
+import { startInstallmentScheduler } from './services/installments';
+import { startWaitlistScheduler } from './services/admissions';
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
@@ -41,14 +50,17 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'x-auth-token']
+  allowedHeaders: ['Content-Type', 'Authorization', 'x-auth-token', 'X-Upload-Token']
 }));
 
 // Basic middleware
 app.use(compression());
 app.use(morgan('combined'));
+// Payment webhooks need the raw body to verify signatures
+app.use('/api/payments/webhook', express.raw({ type: 'application/json', limit: '1mb' }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+app.use(cookieParser());
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -69,9 +81,11 @@ app.use('/api/admin', adminRoutes);
 app.use('/api/courses', courseRoutes);
 app.use('/api/progress', progressRoutes);
 app.use('/api/videos', videoRoutes);
-
-// Serve uploads directory
-app.use('/uploads', express.static('uploads'));
+app.use('/api/payments', paymentRoutes);
+app.use('/api/invoices', invoiceRoutes);
+app.use('/api/refunds', refundRoutes);
+// Uploaded files are only served through here, with access checks
+app.use('/api/files', fileRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -91,6 +105,12 @@ const server = app.listen(PORT, () => {
   console.log(`🌐 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`📱 Frontend URL: ${process.env.FRONTEND_URL || 'http://localhost:3000'}`);
   console.log(`🔗 Health check: http://localhost:${PORT}/health`);
+
+  // Flag overdue installments and suspend access past the grace period
+  startInstallmentScheduler();
+
+  // Expire unanswered waitlist offers and offer free seats to the next applicants
+  startWaitlistScheduler();
 });
 
 // Handle graceful shutdown
@@ -1,7 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 import { PrismaClient } from '@prisma/client';
+import { Permission, hasPermissions } from '../config/permissions';
+import { getSessionStore } from '../services/sessions';
+import { issueRefreshToken, REFRESH_TOKEN_TTL_MS } from '../services/refreshTokens';
 
 const prisma = new PrismaClient();
 
@@ -14,6 +18,7 @@ declare global {
         email: string;
         role: string;
         status: string;
+        sessionId: string;
       };
     }
   }
@@ -23,6 +28,7 @@ export interface JWTPayload {
   userId: string;
   email: string;
   role: string;
+  jti?: string; // session id; tokens without one are rejected
   iat: number;
   exp: number;
 }
@@ -38,17 +44,50 @@ export const comparePassword = async (password: string, hashedPassword: string):
   return bcrypt.compare(password, hashedPassword);
 };
 
-// Generate JWT token
-export const generateToken = (userId: string, email: string, role: string): string => {
+// Generate short-lived JWT access token bound to a session
+export const generateToken = (userId: string, email: string, role: string, sessionId: string): string => {
   const payload = { userId, email, role };
   const secret = process.env.JWT_SECRET;
-  const expiresIn = process.env.JWT_EXPIRES_IN || '7d';
+  const expiresIn = (process.env.JWT_EXPIRES_IN || '15m') as jwt.SignOptions['expiresIn'];
 
   if (!secret) {
     throw new Error('JWT_SECRET is not defined in environment variables');
   }
 
-  return jwt.sign(payload, secret, { expiresIn });
+  return jwt.sign(payload, secret, { expiresIn, jwtid: sessionId });
+};
+
+// Start a server-side session with an access token and the first refresh token of its family
+export const startSession = async (
+  user: { id: string; email: string; role: string },
+  req: Request
+): Promise<{ accessToken: string; refreshToken: string; sessionId: string; expiresAt: Date }> => {
+  const sessionId = crypto.randomUUID();
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
+
+  await getSessionStore().create({
+    id: sessionId,
+    userId: user.id,
+    createdAt: new Date(),
+    expiresAt,
+    userAgent: req.get('user-agent') ?? null,
+    ipAddress: req.ip ?? null
+  });
+
+  const accessToken = generateToken(user.id, user.email, user.role, sessionId);
+  const { token: refreshToken } = await issueRefreshToken(sessionId, user.id, expiresAt);
+
+  return { accessToken, refreshToken, sessionId, expiresAt };
+};
+
+// Check that a token's session exists, belongs to its user and has not been revoked
+const hasActiveSession = async (decoded: JWTPayload): Promise<boolean> => {
+  if (!decoded.jti) {
+    return false;
+  }
+
+  const session = await getSessionStore().get(decoded.jti);
+  return session !== null && session.userId === decoded.userId;
 };
 
 // Verify JWT token
@@ -79,6 +118,15 @@ export const authenticateUser = async (req: Request, res: Response, next: NextFu
     
     try {
       const decoded = verifyToken(token);
+
+      // Logged-out and revoked sessions cannot be used, even if the JWT is still valid
+      if (!(await hasActiveSession(decoded))) {
+        res.status(401).json({
+          error: 'Session expired',
+          message: 'Your session has ended. Please log in again.'
+        });
+        return;
+      }
       
       // Get user from database to ensure they still exist and are active
       const user = await prisma.user.findUnique({
@@ -114,7 +162,8 @@ export const authenticateUser = async (req: Request, res: Response, next: NextFu
         id: user.id,
         email: user.email,
         role: user.role,
-        status: user.status
+        status: user.status,
+        sessionId: decoded.jti!
       };
 
       next();
@@ -169,12 +218,13 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
       }
     });
 
-    if (user && user.status === 'ACTIVE') {
+    if (user && user.status === 'ACTIVE' && await hasActiveSession(decoded)) {
       req.user = {
         id: user.id,
         email: user.email,
         role: user.role,
-        status: user.status
+        status: user.status,
+        sessionId: decoded.jti!
       };
     }
   } catch (error) {
@@ -211,9 +261,68 @@ export const requireRole = (...roles: string[]) => {
 // Middleware to require admin role
 export const requireAdmin = requireRole('ADMIN');
 
+// Check an admin's granted permissions (AdminUser.permissions)
+export const adminHasPermissions = async (userId: string, permissions: Permission[]): Promise<boolean> => {
+  const adminUser = await prisma.adminUser.findUnique({
+    where: { userId },
+    select: { permissions: true }
+  });
+
+  return hasPermissions(adminUser?.permissions ?? [], permissions);
+};
+
+// Check whether a user is assigned to teach a course
+export const isCourseInstructor = async (userId: string, courseId: string): Promise<boolean> => {
+  const assignment = await prisma.courseInstructor.findUnique({
+    where: {
+      courseId_userId: { courseId, userId }
+    }
+  });
+
+  return assignment !== null;
+};
+
+// Authorization middleware - check admin permissions (AdminUser.permissions)
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Authentication required',
+        message: 'You must be logged in to access this resource'
+      });
+      return;
+    }
+
+    if (req.user.role !== 'ADMIN') {
+      res.status(403).json({
+        error: 'Insufficient permissions',
+        message: 'This action requires one of the following roles: ADMIN'
+      });
+      return;
+    }
+
+    try {
+      if (!(await adminHasPermissions(req.user.id, permissions))) {
+        res.status(403).json({
+          error: 'Insufficient permissions',
+          message: `This action requires the following permissions: ${permissions.join(', ')}`
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
 // Middleware to require student role
 export const requireStudent = requireRole('STUDENT');
 
+// Middleware to require instructor role
+export const requireInstructor = requireRole('INSTRUCTOR');
+
 // Middleware to require student or admin role
 export const requireStudentOrAdmin = requireRole('STUDENT', 'ADMIN');
 
@@ -243,3 +352,49 @@ export const requireSelfOrAdmin = (userIdParam = 'userId') => {
     next();
   };
 };
+
+// Middleware to check if user teaches the course in the route, or is an admin with the given permissions
+export const requireCourseInstructorOrAdmin = (courseIdParam = 'id', ...permissions: Permission[]) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Authentication required',
+        message: 'You must be logged in to access this resource'
+      });
+      return;
+    }
+
+    try {
+      const courseId = req.params[courseIdParam];
+
+      if (req.user.role === 'ADMIN') {
+        if (!(await adminHasPermissions(req.user.id, permissions))) {
+          res.status(403).json({
+            error: 'Insufficient permissions',
+            message: `This action requires the following permissions: ${permissions.join(', ')}`
+          });
+          return;
+        }
+
+        next();
+        return;
+      }
+
+      const isInstructor = req.user.role === 'INSTRUCTOR'
+        && !!courseId
+        && await isCourseInstructor(req.user.id, courseId);
+
+      if (!isInstructor) {
+        res.status(403).json({
+          error: 'Access denied',
+          message: 'You can only access courses you teach'
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -52,7 +52,7 @@ export const errorHandler = (
   // Handle Prisma errors
   else if (error instanceof Prisma.PrismaClientKnownRequestError) {
     switch (error.code) {
-      case 'P2002':
+      case 'P2002': {
         // Unique constraint failed
         const target = error.meta?.target as string[] | undefined;
         const field = target ? target[0] : 'field';
@@ -61,6 +61,7 @@ export const errorHandler = (
         code = 'DUPLICATE_ENTRY';
         details = { field, constraint: 'unique' };
         break;
+      }
 
       case 'P2014':
         // Required relation violation
@@ -185,7 +186,7 @@ export const errorHandler = (
 };
 
 // Async error wrapper to catch errors in async route handlers
-export const asyncHandler = (fn: Function) => {
+export const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => unknown) => {
   return (req: Request, res: Response, next: NextFunction) => {
     Promise.resolve(fn(req, res, next)).catch(next);
   };
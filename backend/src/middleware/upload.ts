@@ -0,0 +1,25 @@
+import multer from 'multer';
+import { CustomError } from './errorHandler';
+
+// Upload size limit in bytes (MAX_FILE_SIZE, default 5 MB)
+export const MAX_FILE_SIZE = Number(process.env.MAX_FILE_SIZE) || 5 * 1024 * 1024;
+
+// Types accepted for uploaded documents and lesson files; contents are checked again after upload
+export const DOCUMENT_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+
+// Single file in the `file` field, kept in memory until its contents are checked
+export const documentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_FILE_SIZE,
+    files: 1
+  },
+  fileFilter: (_req, file, callback) => {
+    if (!DOCUMENT_MIME_TYPES.includes(file.mimetype)) {
+      callback(new CustomError('Only PDF, JPEG and PNG files are allowed', 400, 'INVALID_FILE_TYPE'));
+      return;
+    }
+
+    callback(null, true);
+  }
+}).single('file');
@@ -1,5 +1,6 @@
 import Joi from 'joi';
 import { Request, Response, NextFunction } from 'express';
+import { ALL_PERMISSIONS, SUPER_ADMIN_PERMISSION } from '../config/permissions';
 
 // Generic validation middleware
 export const validate = (schema: Joi.ObjectSchema) => {
@@ -112,7 +113,16 @@ export const studentRegistrationValidation = Joi.object({
   }),
   
   // Additional Information
-  message: Joi.string().max(1000).optional()
+  message: Joi.string().max(1000).optional(),
+  
+  // Pricing
+  couponCode: Joi.string().trim().max(50).optional(),
+  currency: Joi.string().length(3).uppercase().optional() // defaults to the course currency
+});
+
+// Registration document upload validation (multipart fields alongside the file)
+export const documentUploadValidation = Joi.object({
+  type: Joi.string().valid('TRANSCRIPT', 'ID_CARD', 'PASSPORT_PHOTO', 'OTHER').required()
 });
 
 // Course creation/update validation
@@ -123,18 +133,33 @@ export const courseValidation = Joi.object({
   level: Joi.string().valid('Beginner', 'Intermediate', 'Advanced', 'Foundation', 'Professional').default('Beginner'),
   duration: Joi.string().max(100).required(),
   price: Joi.number().min(0).required(),
-  currency: Joi.string().length(3).default('NGN'),
+  currency: Joi.string().length(3).uppercase().default('NGN'),
+  accessType: Joi.string().valid('FREE', 'PAID', 'PREVIEW').default('PAID'),
   imageUrl: Joi.string().uri().optional(),
   maxStudents: Joi.number().min(1).optional(),
   prerequisites: Joi.string().max(500).optional(),
   isActive: Joi.boolean().default(true)
 });
 
+// Installment plan validation (amounts and due dates are paired by position)
+export const installmentPlanValidation = Joi.object({
+  name: Joi.string().min(3).max(100).required(),
+  amounts: Joi.array().items(Joi.number().positive()).min(2).max(24).required(),
+  dueOffsetsDays: Joi.array().items(Joi.number().integer().min(0)).min(2).max(24).required(),
+  graceDays: Joi.number().integer().min(0).max(90).default(7),
+  isActive: Joi.boolean().default(true)
+});
+
+// Lesson file upload validation (multipart fields alongside the file)
+export const lessonFileValidation = Joi.object({
+  title: Joi.string().min(1).max(200).optional() // defaults to the file name
+});
+
 // Course module validation
 export const moduleValidation = Joi.object({
   title: Joi.string().min(3).max(200).required(),
   description: Joi.string().max(1000).optional(),
-  orderIndex: Joi.number().min(0).required()
+  orderIndex: Joi.number().integer().min(0).required()
 });
 
 // Lesson validation
@@ -144,15 +169,87 @@ export const lessonValidation = Joi.object({
   content: Joi.string().max(10000).optional(),
   videoUrl: Joi.string().uri().optional(),
   duration: Joi.string().max(50).optional(),
-  orderIndex: Joi.number().min(0).required(),
+  orderIndex: Joi.number().integer().min(0).required(),
   resources: Joi.array().items(Joi.string().uri()).default([])
 });
 
+// Course instructor assignment validation
+export const courseInstructorValidation = Joi.object({
+  userId: Joi.string().required().messages({
+    'any.required': 'Instructor user ID is required'
+  })
+});
+
+// Module/lesson reorder validation
+export const reorderValidation = Joi.object({
+  items: Joi.array().items(Joi.object({
+    id: Joi.string().required(),
+    orderIndex: Joi.number().integer().min(0).required()
+  })).min(1).unique('id').required().messages({
+    'array.unique': 'Each item may only appear once',
+    'any.required': 'Items to reorder are required'
+  })
+});
+
 // Progress update validation
 export const progressUpdateValidation = Joi.object({
   lessonId: Joi.string().required(),
   isCompleted: Joi.boolean().required(),
-  timeSpent: Joi.number().min(0).optional().default(0)
+  // Whole minutes spent on the lesson since the last update, added to the totals
+  timeSpent: Joi.number().integer().min(0).optional().default(0).messages({
+    'number.integer': 'Time spent must be a whole number of minutes'
+  })
+});
+
+// Payment checkout validation
+export const checkoutValidation = Joi.object({
+  enrollmentId: Joi.string().required().messages({
+    'any.required': 'Enrollment ID is required'
+  })
+});
+
+// Installment plan selection validation
+export const installmentPlanSelectionValidation = Joi.object({
+  enrollmentId: Joi.string().required(),
+  installmentPlanId: Joi.string().required()
+});
+
+// Refund request validation
+export const refundRequestValidation = Joi.object({
+  enrollmentId: Joi.string().required(),
+  reason: Joi.string().min(10).max(1000).required()
+});
+
+// Refund approval validation (Admin); amount defaults to the policy's recommendation
+export const refundApprovalValidation = Joi.object({
+  amount: Joi.number().min(0).optional(),
+  note: Joi.string().max(1000).optional()
+});
+
+// Enrollment cancellation validation (Admin)
+export const enrollmentCancellationValidation = Joi.object({
+  reason: Joi.string().min(3).max(500).required().messages({
+    'any.required': 'A reason is required when cancelling an enrollment'
+  })
+});
+
+// Refund denial validation (Admin)
+export const refundDenialValidation = Joi.object({
+  note: Joi.string().min(3).max(1000).required().messages({
+    'any.required': 'Please tell the student why the refund was denied'
+  })
+});
+
+// Exchange rate validation (Admin)
+export const exchangeRateValidation = Joi.object({
+  rate: Joi.number().positive().required().messages({
+    'any.required': 'Rate is required (units of the currency per unit of the reporting currency)'
+  })
+});
+
+// Refund request listing filters (Admin)
+export const refundQueryValidation = Joi.object({
+  status: Joi.string().valid('PENDING', 'APPROVED', 'DENIED', 'FAILED').optional()
 });
 
 // YouTube video validation
@@ -169,6 +266,14 @@ export const youtubeVideoValidation = Joi.object({
   isActive: Joi.boolean().default(true)
 });
 
+// YouTube video listing filters
+export const videoQueryValidation = Joi.object({
+  q: Joi.string().min(1).max(100).optional(),
+  category: Joi.string().max(100).optional(),
+  tags: Joi.string().max(500).optional(), // comma-separated
+  courseId: Joi.string().optional()
+});
+
 // Admin user creation validation
 export const adminUserValidation = Joi.object({
   email: emailSchema,
@@ -177,7 +282,85 @@ export const adminUserValidation = Joi.object({
   lastName: Joi.string().min(2).max(50).required(),
   phone: phoneSchema,
   department: Joi.string().max(100).optional(),
-  permissions: Joi.array().items(Joi.string()).default([])
+  permissions: Joi.array().items(Joi.string().valid(...ALL_PERMISSIONS, SUPER_ADMIN_PERMISSION)).unique().default([])
+});
+
+// Admin permissions update validation
+export const adminPermissionsValidation = Joi.object({
+  department: Joi.string().max(100).optional(),
+  permissions: Joi.array().items(Joi.string().valid(...ALL_PERMISSIONS, SUPER_ADMIN_PERMISSION)).unique().required()
+});
+
+// Enrollment access override validation (Admin)
+export const enrollmentAccessValidation = Joi.object({
+  accessOverride: Joi.boolean().required(),
+  reason: Joi.when('accessOverride', {
+    is: true,
+    then: Joi.string().min(3).max(500).required().messages({
+      'any.required': 'A reason is required when granting access'
+    }),
+    otherwise: Joi.string().max(500).optional()
+  })
+});
+
+// Coupon validation (Admin)
+export const couponValidation = Joi.object({
+  code: Joi.string().trim().uppercase().pattern(/^[A-Z0-9_-]+$/).min(3).max(40).required().messages({
+    'string.pattern.base': 'Coupon codes may only contain letters, numbers, dashes and underscores'
+  }),
+  description: Joi.string().max(500).optional(),
+  discountType: Joi.string().valid('PERCENTAGE', 'FIXED').required(),
+  amount: Joi.when('discountType', {
+    is: 'PERCENTAGE',
+    then: Joi.number().positive().max(100).required(),
+    otherwise: Joi.number().positive().required()
+  }),
+  courseId: Joi.string().optional(),
+  expiresAt: Joi.date().iso().greater('now').optional(),
+  maxRedemptions: Joi.number().integer().min(1).optional(),
+  oncePerStudent: Joi.boolean().default(true),
+  isActive: Joi.boolean().default(true)
+});
+
+// Scholarship validation (Admin)
+export const scholarshipValidation = Joi.object({
+  studentId: Joi.string().required(),
+  courseId: Joi.string().optional(),
+  discountType: Joi.string().valid('PERCENTAGE', 'FIXED').required(),
+  amount: Joi.when('discountType', {
+    is: 'PERCENTAGE',
+    then: Joi.number().positive().max(100).required(),
+    otherwise: Joi.number().positive().required()
+  }),
+  reason: Joi.string().min(3).max(500).required(),
+  expiresAt: Joi.date().iso().greater('now').optional()
+});
+
+// Scholarship listing filters (Admin)
+export const scholarshipQueryValidation = Joi.object({
+  studentId: Joi.string().optional(),
+  courseId: Joi.string().optional()
+});
+
+// User status change validation (Admin)
+export const userStatusValidation = Joi.object({
+  status: Joi.string().valid('ACTIVE', 'SUSPENDED').required(),
+  reason: Joi.string().max(500).optional()
+});
+
+// User role change validation (Admin)
+export const userRoleValidation = Joi.object({
+  role: Joi.string().valid('STUDENT', 'INSTRUCTOR', 'ADMIN').required()
+});
+
+// Admin user listing filters
+export const userQueryValidation = Joi.object({
+  role: Joi.string().valid('STUDENT', 'INSTRUCTOR', 'ADMIN').optional()
+});
+
+// Admin summary query validation
+export const summaryQueryValidation = Joi.object({
+  weeks: Joi.number().integer().min(1).max(52).default(12)
 });
 
 // Password change validation
@@ -192,19 +375,122 @@ export const passwordChangeValidation = Joi.object({
   })
 });
 
-// Registration approval/rejection validation
+// Account activation validation
+export const activationValidation = Joi.object({
+  token: Joi.string().required().messages({
+    'any.required': 'Activation token is required'
+  }),
+  password: passwordSchema,
+  confirmPassword: Joi.string().required().valid(Joi.ref('password')).messages({
+    'any.only': 'Password confirmation does not match password',
+    'any.required': 'Password confirmation is required'
+  })
+});
+
+// Forgot password validation
+export const forgotPasswordValidation = Joi.object({
+  email: emailSchema
+});
+
+// Password reset validation
+export const resetPasswordValidation = Joi.object({
+  token: Joi.string().required().messages({
+    'any.required': 'Reset token is required'
+  }),
+  password: passwordSchema,
+  confirmPassword: Joi.string().required().valid(Joi.ref('password')).messages({
+    'any.only': 'Password confirmation does not match password',
+    'any.required': 'Password confirmation is required'
+  })
+});
+
+// Two-factor code: a 6-digit TOTP code or a backup code (XXXX-XXXX)
+const twoFactorCodeSchema = Joi.string()
+  .trim()
+  .pattern(/^(\d{6}|[A-Za-z2-7]{4}-?[A-Za-z2-7]{4})$/)
+  .required()
+  .messages({
+    'string.pattern.base': 'Please provide a valid authentication code',
+    'any.required': 'Authentication code is required'
+  });
+
+// Two-factor enrollment confirmation / backup code regeneration
+export const twoFactorCodeValidation = Joi.object({
+  code: twoFactorCodeSchema
+});
+
+// Two-factor disable validation
+export const twoFactorDisableValidation = Joi.object({
+  password: Joi.string().required().messages({
+    'any.required': 'Password is required'
+  }),
+  code: twoFactorCodeSchema
+});
+
+// Second login step: challenge issued by /login plus an authentication code
+export const twoFactorChallengeValidation = Joi.object({
+  challengeToken: Joi.string().required().messages({
+    'any.required': 'Challenge token is required'
+  })
+});
+
+export const twoFactorLoginValidation = twoFactorChallengeValidation.keys({
+  code: twoFactorCodeSchema
+});
+
+// Email verification validation
+export const emailVerificationValidation = Joi.object({
+  token: Joi.string().required().messages({
+    'any.required': 'Verification token is required'
+  })
+});
+
+// Resend email verification validation
+export const resendVerificationValidation = Joi.object({
+  email: emailSchema
+});
+
+// Admin registration listing filters
+export const registrationQueryValidation = Joi.object({
+  courseId: Joi.string().optional(),
+  includeUnverified: Joi.boolean().default(false)
+});
+
+const rejectionReason = Joi.string().min(10).max(500).required().messages({
+  'string.min': 'Rejection reason must be at least 10 characters',
+  'any.required': 'Rejection reason is required when rejecting a registration'
+});
+
+// Registration review actions (see services/registrationStatus for the allowed transitions)
 export const registrationActionValidation = Joi.object({
-  action: Joi.string().valid('approve', 'reject').required(),
+  action: Joi.string().valid('review', 'request-info', 'waitlist', 'approve', 'reject').required(),
   message: Joi.when('action', {
-    is: 'reject',
-    then: Joi.string().min(10).max(500).required().messages({
-      'string.min': 'Rejection reason must be at least 10 characters',
-      'any.required': 'Rejection reason is required when rejecting a registration'
-    }),
+    switch: [
+      {
+        is: 'reject',
+        then: rejectionReason
+      },
+      {
+        is: 'request-info',
+        then: Joi.string().min(10).max(500).required().messages({
+          'string.min': 'Please describe what the applicant needs to provide (at least 10 characters)',
+          'any.required': 'Please describe what the applicant needs to provide'
+        })
+      }
+    ],
     otherwise: Joi.string().max(500).optional()
   })
 });
 
+// Applicant's answer to a request for more information
+export const registrationResponseValidation = Joi.object({
+  message: Joi.string().max(1000).optional()
+});
+
+export const registrationWithdrawalValidation = Joi.object({
+  reason: Joi.string().max(500).optional()
+});
+
 // Query parameter validation schemas
 export const paginationValidation = Joi.object({
   page: Joi.number().min(1).default(1),
@@ -221,6 +507,22 @@ export const searchValidation = Joi.object({
   endDate: Joi.date().min(Joi.ref('startDate')).optional()
 });
 
+// Most registrations one bulk action may touch
+export const MAX_BULK_REGISTRATIONS = 500;
+
+// Bulk approve/reject: either registration IDs or a filter like the registration list's.
+// The message is shared by every registration in the batch.
+export const registrationBulkActionValidation = Joi.object({
+  action: Joi.string().valid('approve', 'reject').required(),
+  message: Joi.when('action', {
+    is: 'reject',
+    then: rejectionReason,
+    otherwise: Joi.string().max(500).optional()
+  }),
+  ids: Joi.array().items(Joi.string()).min(1).max(MAX_BULK_REGISTRATIONS).unique(),
+  filter: searchValidation.concat(registrationQueryValidation)
+}).xor('ids', 'filter');
+
 // Validate query parameters
 export const validateQuery = (schema: Joi.ObjectSchema) => {
   return (req: Request, res: Response, next: NextFunction): void => {
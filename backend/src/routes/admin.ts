@@ -0,0 +1,1204 @@
+import express from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import {
+  authenticateUser,
+  requireAdmin,
+  requirePermission,
+  hashPassword
+} from '../middleware/auth';
+import {
+  validate,
+  adminUserValidation,
+  adminPermissionsValidation,
+  userStatusValidation,
+  userRoleValidation,
+  userQueryValidation,
+  summaryQueryValidation,
+  enrollmentAccessValidation,
+  enrollmentCancellationValidation,
+  couponValidation,
+  scholarshipValidation,
+  scholarshipQueryValidation,
+  refundApprovalValidation,
+  refundDenialValidation,
+  refundQueryValidation,
+  exchangeRateValidation,
+  validateQuery,
+  paginationValidation,
+  searchValidation
+} from '../middleware/validation';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import {
+  PERMISSIONS,
+  ALL_PERMISSIONS,
+  SUPER_ADMIN_PERMISSION,
+  isSuperAdmin,
+  unassignablePermissions
+} from '../config/permissions';
+import { getSessionStore } from '../services/sessions';
+import { unlockAccount } from '../services/loginAttempts';
+import { approveRefund, denyRefund } from '../services/refunds';
+import { REPORTING_CURRENCY } from '../services/exchangeRates';
+import { getSeatUsage } from '../services/admissions';
+import { cancelEnrollment } from '../services/enrollments';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Every admin route requires an authenticated admin
+router.use(authenticateUser, requireAdmin);
+
+// Shape a user record for admin responses (never expose the password hash)
+const formatUser = (user: any) => ({
+  id: user.id,
+  email: user.email,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  phone: user.phone,
+  role: user.role,
+  status: user.status,
+  lockedUntil: user.lockedUntil,
+  createdAt: user.createdAt,
+  ...(user.adminUser !== undefined && {
+    adminUser: user.adminUser ? {
+      id: user.adminUser.id,
+      department: user.adminUser.department,
+      permissions: user.adminUser.permissions
+    } : null
+  })
+});
+
+// Platform overview
+router.get('/summary',
+  requirePermission(PERMISSIONS.VIEW_REPORTS),
+  validateQuery(summaryQueryValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { weeks = 12 } = req.query as any;
+    const since = new Date(Date.now() - weeks * 7 * 24 * 60 * 60 * 1000);
+
+    const [
+      pendingRegistrations,
+      activeEnrollments,
+      totalStudents,
+      revenueRows,
+      signupRows
+    ] = await Promise.all([
+      // Registrations waiting on an admin (not on the applicant)
+      prisma.registration.count({ where: { status: { in: ['PENDING', 'UNDER_REVIEW'] } } }),
+      prisma.enrollment.count({ where: { status: 'ACTIVE' } }),
+      prisma.student.count(),
+      // Enrollments are converted at the rate snapshotted when they were priced;
+      // older enrollments without a snapshot use the current rate
+      prisma.$queryRaw<{
+        paymentStatus: string;
+        currency: string;
+        amount: number;
+        reportingAmount: number | null;
+        enrollments: number;
+        unconverted: number;
+      }[]>(Prisma.sql`
+        SELECT p."paymentStatus", p."currency",
+               COALESCE(SUM(p."amount"), 0)::float AS amount,
+               SUM(p."amount" * p."rate")::float AS "reportingAmount",
+               COUNT(*)::int AS enrollments,
+               COUNT(*) FILTER (WHERE p."rate" IS NULL)::int AS unconverted
+        FROM (
+          SELECT e."paymentStatus",
+                 COALESCE(e."currency", c."currency") AS currency,
+                 COALESCE(e."effectivePrice", c."price") AS amount,
+                 COALESCE(
+                   e."reportingRate",
+                   CASE WHEN COALESCE(e."currency", c."currency") = ${REPORTING_CURRENCY} THEN 1
+                        ELSE 1 / NULLIF(r."rate", 0) END
+                 ) AS rate
+          FROM "enrollments" e
+          JOIN "courses" c ON c."id" = e."courseId"
+          LEFT JOIN "exchange_rates" r ON r."currency" = COALESCE(e."currency", c."currency")
+        ) p
+        GROUP BY p."paymentStatus", p."currency"
+      `),
+      prisma.$queryRaw<{ week: Date; signups: number }[]>(Prisma.sql`
+        SELECT date_trunc('week', "createdAt") AS week, COUNT(*)::int AS signups
+        FROM "users"
+        WHERE "createdAt" >= ${since}
+        GROUP BY week
+        ORDER BY week ASC
+      `)
+    ]);
+
+    res.json({
+      summary: {
+        pendingRegistrations,
+        activeEnrollments,
+        totalStudents,
+        reportingCurrency: REPORTING_CURRENCY,
+        revenueByPaymentStatus: revenueRows.map(row => ({
+          paymentStatus: row.paymentStatus,
+          currency: row.currency,
+          amount: row.amount,
+          reportingAmount: row.reportingAmount === null ? null : Math.round(row.reportingAmount * 100) / 100,
+          enrollments: row.enrollments,
+          // enrollments left out of reportingAmount because no rate is set for their currency
+          unconvertedEnrollments: row.unconverted
+        })),
+        signupsPerWeek: signupRows.map(row => ({
+          weekStart: row.week,
+          signups: row.signups
+        }))
+      }
+    });
+  })
+);
+
+// Permissions held by the calling admin
+const getCallerPermissions = async (userId: string): Promise<string[]> => {
+  const adminUser = await prisma.adminUser.findUnique({
+    where: { userId },
+    select: { permissions: true }
+  });
+
+  return adminUser?.permissions ?? [];
+};
+
+// Admins may only grant or withdraw permissions they hold themselves
+const assertCanAssignPermissions = (callerPermissions: string[], changed: string[]): void => {
+  const missing = unassignablePermissions(callerPermissions, changed);
+
+  if (missing.length > 0) {
+    throw new CustomError(
+      `You cannot grant or withdraw permissions you do not hold: ${missing.join(', ')}`,
+      403,
+      'PERMISSION_NOT_HELD'
+    );
+  }
+};
+
+// Only super admins may change the status, role or permissions of another super admin
+const assertCanManageUser = async (callerPermissions: string[], userId: string): Promise<void> => {
+  const target = await prisma.adminUser.findUnique({
+    where: { userId },
+    select: { permissions: true }
+  });
+
+  if (target && isSuperAdmin(target.permissions) && !isSuperAdmin(callerPermissions)) {
+    throw new CustomError('Only super admins can change a super admin account', 403, 'SUPER_ADMIN_REQUIRED');
+  }
+};
+
+// Permission catalogue
+router.get('/permissions', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const adminUser = await prisma.adminUser.findUnique({
+    where: { userId: req.user!.id },
+    select: { permissions: true }
+  });
+
+  res.json({
+    permissions: ALL_PERMISSIONS,
+    superAdminPermission: SUPER_ADMIN_PERMISSION,
+    granted: adminUser?.permissions ?? []
+  });
+}));
+
+// List users
+router.get('/users',
+  requirePermission(PERMISSIONS.MANAGE_USERS),
+  validateQuery(paginationValidation.concat(searchValidation).concat(userQueryValidation)),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { page = 1, limit = 10, sortBy = 'createdAt', sortOrder = 'desc', q, status, role } = req.query as any;
+    const offset = (page - 1) * limit;
+
+    // Build where clause
+    const where: any = {};
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (role) {
+      where.role = role;
+    }
+
+    if (q) {
+      where.OR = [
+        { firstName: { contains: q, mode: 'insensitive' } },
+        { lastName: { contains: q, mode: 'insensitive' } },
+        { email: { contains: q, mode: 'insensitive' } }
+      ];
+    }
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        include: {
+          adminUser: true
+        },
+        orderBy: { [sortBy]: sortOrder },
+        skip: offset,
+        take: limit
+      }),
+      prisma.user.count({ where })
+    ]);
+
+    res.json({
+      users: users.map(formatUser),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  })
+);
+
+// Create admin user
+router.post('/users',
+  requirePermission(PERMISSIONS.MANAGE_USERS),
+  validate(adminUserValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { email, password, firstName, lastName, phone, department, permissions } = req.body;
+
+    assertCanAssignPermissions(await getCallerPermissions(req.user!.id), permissions);
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() }
+    });
+
+    if (existingUser) {
+      throw new CustomError('A user with this email already exists', 409, 'USER_EXISTS');
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email: email.toLowerCase(),
+        password: await hashPassword(password),
+        firstName,
+        lastName,
+        phone,
+        role: 'ADMIN',
+        status: 'ACTIVE',
+        adminUser: {
+          create: {
+            department,
+            permissions
+          }
+        }
+      },
+      include: {
+        adminUser: true
+      }
+    });
+
+    res.status(201).json({
+      message: 'Admin user created successfully',
+      user: formatUser(user)
+    });
+  })
+);
+
+// Suspend or reactivate a user
+router.patch('/users/:id/status',
+  requirePermission(PERMISSIONS.MANAGE_USERS),
+  validate(userStatusValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const { status } = req.body;
+
+    if (id === req.user!.id) {
+      throw new CustomError('You cannot change the status of your own account', 400, 'SELF_MODIFICATION');
+    }
+
+    const existing = await prisma.user.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      throw new CustomError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    await assertCanManageUser(await getCallerPermissions(req.user!.id), id);
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: { status }
+    });
+
+    // Suspended users are signed out everywhere immediately
+    if (status === 'SUSPENDED') {
+      await getSessionStore().revokeAllForUser(id, 'USER_SUSPENDED');
+    }
+
+    res.json({
+      message: status === 'SUSPENDED' ? 'User suspended successfully' : 'User reactivated successfully',
+      user: formatUser(user)
+    });
+  })
+);
+
+// Lockout history for a user
+router.get('/users/:id/lockouts',
+  requirePermission(PERMISSIONS.MANAGE_USERS),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id }
+    });
+
+    if (!user) {
+      throw new CustomError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const lockouts = await prisma.accountLockout.findMany({
+      where: { userId: id },
+      orderBy: { createdAt: 'desc' },
+      take: 50
+    });
+
+    res.json({
+      user: formatUser(user),
+      failedLoginAttempts: user.failedLoginAttempts,
+      lockouts
+    });
+  })
+);
+
+// Lift a login lockout
+router.post('/users/:id/unlock',
+  requirePermission(PERMISSIONS.MANAGE_USERS),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    const existing = await prisma.user.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      throw new CustomError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    await unlockAccount(id, req.user!.id);
+
+    const user = await prisma.user.findUnique({
+      where: { id }
+    });
+
+    res.json({
+      message: 'Account unlocked successfully',
+      user: formatUser(user)
+    });
+  })
+);
+
+// Change a user's role
+router.patch('/users/:id/role',
+  requirePermission(PERMISSIONS.MANAGE_USERS),
+  validate(userRoleValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const { role } = req.body;
+
+    if (id === req.user!.id) {
+      throw new CustomError('You cannot change the role of your own account', 400, 'SELF_MODIFICATION');
+    }
+
+    const existing = await prisma.user.findUnique({
+      where: { id },
+      include: {
+        student: true,
+        adminUser: true
+      }
+    });
+
+    if (!existing) {
+      throw new CustomError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const callerPermissions = await getCallerPermissions(req.user!.id);
+    await assertCanManageUser(callerPermissions, id);
+
+    // Taking away the admin role withdraws all of the admin's permissions
+    if (role !== 'ADMIN' && existing.adminUser) {
+      assertCanAssignPermissions(callerPermissions, existing.adminUser.permissions);
+    }
+
+    const user = await prisma.$transaction(async (tx) => {
+      // Admin permissions must not outlive the admin role
+      if (role !== 'ADMIN' && existing.adminUser) {
+        await tx.adminUser.delete({
+          where: { userId: id }
+        });
+      }
+
+      if (role === 'ADMIN' && !existing.adminUser) {
+        await tx.adminUser.create({
+          data: { userId: id }
+        });
+      }
+
+      // Course assignments only apply to instructors
+      if (role !== 'INSTRUCTOR') {
+        await tx.courseInstructor.deleteMany({
+          where: { userId: id }
+        });
+      }
+
+      // Students need a profile for registrations and progress
+      if (role === 'STUDENT' && !existing.student) {
+        await tx.student.create({
+          data: { userId: id }
+        });
+      }
+
+      return tx.user.update({
+        where: { id },
+        data: { role },
+        include: {
+          adminUser: true
+        }
+      });
+    });
+
+    res.json({
+      message: 'User role updated successfully',
+      user: formatUser(user)
+    });
+  })
+);
+
+// Update an admin's department and permissions
+router.patch('/users/:id/permissions',
+  requirePermission(PERMISSIONS.MANAGE_USERS),
+  validate(adminPermissionsValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const { department, permissions } = req.body;
+
+    if (id === req.user!.id) {
+      throw new CustomError('You cannot change the permissions of your own account', 400, 'SELF_MODIFICATION');
+    }
+
+    const existing = await prisma.adminUser.findUnique({
+      where: { userId: id }
+    });
+
+    if (!existing) {
+      throw new CustomError('Admin user not found', 404, 'ADMIN_NOT_FOUND');
+    }
+
+    const callerPermissions = await getCallerPermissions(req.user!.id);
+    await assertCanManageUser(callerPermissions, id);
+
+    // Both added and removed permissions must be held by the caller
+    assertCanAssignPermissions(callerPermissions, [
+      ...permissions.filter((permission: string) => !existing.permissions.includes(permission)),
+      ...existing.permissions.filter(permission => !permissions.includes(permission))
+    ]);
+
+    await prisma.adminUser.update({
+      where: { userId: id },
+      data: {
+        permissions,
+        ...(department !== undefined && { department })
+      }
+    });
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      include: {
+        adminUser: true
+      }
+    });
+
+    res.json({
+      message: 'Admin permissions updated successfully',
+      user: formatUser(user)
+    });
+  })
+);
+
+// Grant or withdraw content access regardless of payment (e.g. scholarships)
+router.patch('/enrollments/:id/access',
+  requirePermission(PERMISSIONS.MANAGE_STUDENTS),
+  validate(enrollmentAccessValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const { accessOverride, reason } = req.body;
+
+    const existing = await prisma.enrollment.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      throw new CustomError('Enrollment not found', 404, 'ENROLLMENT_NOT_FOUND');
+    }
+
+    const enrollment = await prisma.enrollment.update({
+      where: { id },
+      data: {
+        accessOverride,
+        accessOverrideReason: reason ?? null,
+        accessOverrideBy: req.user!.id,
+        accessOverrideAt: new Date()
+      },
+      include: {
+        student: {
+          include: {
+            user: true
+          }
+        },
+        course: true
+      }
+    });
+
+    res.json({
+      message: accessOverride ? 'Course access granted successfully' : 'Course access override removed',
+      enrollment: {
+        id: enrollment.id,
+        status: enrollment.status,
+        paymentStatus: enrollment.paymentStatus,
+        accessOverride: enrollment.accessOverride,
+        accessOverrideReason: enrollment.accessOverrideReason,
+        accessOverrideAt: enrollment.accessOverrideAt,
+        student: {
+          id: enrollment.student.id,
+          name: `${enrollment.student.user.firstName} ${enrollment.student.user.lastName}`,
+          email: enrollment.student.user.email
+        },
+        course: {
+          id: enrollment.course.id,
+          title: enrollment.course.title
+        }
+      }
+    });
+  })
+);
+
+// Cancel an enrollment without a refund; its seat is offered to the course's waiting list
+router.post('/enrollments/:id/cancel',
+  requirePermission(PERMISSIONS.MANAGE_STUDENTS),
+  validate(enrollmentCancellationValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    const enrollment = await cancelEnrollment(id, {
+      cancelledBy: req.user!.id,
+      reason
+    });
+
+    res.json({
+      message: 'Enrollment cancelled successfully',
+      enrollment: {
+        id: enrollment.id,
+        status: enrollment.status,
+        paymentStatus: enrollment.paymentStatus,
+        cancelledAt: enrollment.cancelledAt,
+        cancellationReason: enrollment.cancellationReason,
+        student: {
+          id: enrollment.student.id,
+          name: `${enrollment.student.user.firstName} ${enrollment.student.user.lastName}`,
+          email: enrollment.student.user.email
+        },
+        course: {
+          id: enrollment.course.id,
+          title: enrollment.course.title
+        }
+      }
+    });
+  })
+);
+
+// Shape a coupon for admin responses
+const formatCoupon = (coupon: any) => ({
+  id: coupon.id,
+  code: coupon.code,
+  description: coupon.description,
+  discountType: coupon.discountType,
+  amount: coupon.amount,
+  courseId: coupon.courseId,
+  course: coupon.course ? { id: coupon.course.id, title: coupon.course.title } : null,
+  expiresAt: coupon.expiresAt,
+  maxRedemptions: coupon.maxRedemptions,
+  redemptionCount: coupon.redemptionCount,
+  oncePerStudent: coupon.oncePerStudent,
+  isActive: coupon.isActive,
+  createdBy: coupon.createdBy,
+  createdAt: coupon.createdAt,
+  updatedAt: coupon.updatedAt
+});
+
+// Shape a scholarship for admin responses
+const formatScholarship = (scholarship: any) => ({
+  id: scholarship.id,
+  discountType: scholarship.discountType,
+  amount: scholarship.amount,
+  reason: scholarship.reason,
+  expiresAt: scholarship.expiresAt,
+  isActive: scholarship.isActive,
+  grantedBy: scholarship.grantedBy,
+  createdAt: scholarship.createdAt,
+  student: {
+    id: scholarship.student.id,
+    name: `${scholarship.student.user.firstName} ${scholarship.student.user.lastName}`,
+    email: scholarship.student.user.email
+  },
+  course: scholarship.course ? { id: scholarship.course.id, title: scholarship.course.title } : null
+});
+
+// Make sure a coupon or scholarship restricted to a course points at a real one
+const assertCourseExists = async (courseId: string | undefined) => {
+  if (!courseId) {
+    return;
+  }
+
+  const course = await prisma.course.findUnique({
+    where: { id: courseId }
+  });
+
+  if (!course) {
+    throw new CustomError('Course not found', 404, 'COURSE_NOT_FOUND');
+  }
+};
+
+// List coupons
+router.get('/coupons',
+  requirePermission(PERMISSIONS.MANAGE_PAYMENTS),
+  validateQuery(paginationValidation.concat(searchValidation)),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { page = 1, limit = 10, sortBy = 'createdAt', sortOrder = 'desc', q, status } = req.query as any;
+    const offset = (page - 1) * limit;
+
+    const where: any = {};
+
+    if (status === 'ACTIVE') {
+      where.isActive = true;
+    } else if (status === 'INACTIVE') {
+      where.isActive = false;
+    }
+
+    if (q) {
+      where.OR = [
+        { code: { contains: q, mode: 'insensitive' } },
+        { description: { contains: q, mode: 'insensitive' } }
+      ];
+    }
+
+    const [coupons, total] = await Promise.all([
+      prisma.coupon.findMany({
+        where,
+        include: {
+          course: true
+        },
+        orderBy: { [sortBy]: sortOrder },
+        skip: offset,
+        take: limit
+      }),
+      prisma.coupon.count({ where })
+    ]);
+
+    res.json({
+      coupons: coupons.map(formatCoupon),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  })
+);
+
+// Create a coupon
+router.post('/coupons',
+  requirePermission(PERMISSIONS.MANAGE_PAYMENTS),
+  validate(couponValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { code, courseId } = req.body;
+
+    const existing = await prisma.coupon.findUnique({
+      where: { code }
+    });
+
+    if (existing) {
+      throw new CustomError('A coupon with this code already exists', 409, 'COUPON_EXISTS');
+    }
+
+    await assertCourseExists(courseId);
+
+    const coupon = await prisma.coupon.create({
+      data: {
+        ...req.body,
+        createdBy: req.user!.id
+      },
+      include: {
+        course: true
+      }
+    });
+
+    res.status(201).json({
+      message: 'Coupon created successfully',
+      coupon: formatCoupon(coupon)
+    });
+  })
+);
+
+// Update a coupon; discounts already granted are unaffected
+router.put('/coupons/:id',
+  requirePermission(PERMISSIONS.MANAGE_PAYMENTS),
+  validate(couponValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const { code, courseId, description, expiresAt, maxRedemptions } = req.body;
+
+    const existing = await prisma.coupon.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      throw new CustomError('Coupon not found', 404, 'COUPON_NOT_FOUND');
+    }
+
+    if (code !== existing.code) {
+      const duplicate = await prisma.coupon.findUnique({
+        where: { code }
+      });
+
+      if (duplicate) {
+        throw new CustomError('A coupon with this code already exists', 409, 'COUPON_EXISTS');
+      }
+    }
+
+    await assertCourseExists(courseId);
+
+    const coupon = await prisma.coupon.update({
+      where: { id },
+      data: {
+        ...req.body,
+        // Omitted optional fields clear the previous value
+        description: description ?? null,
+        courseId: courseId ?? null,
+        expiresAt: expiresAt ?? null,
+        maxRedemptions: maxRedemptions ?? null
+      },
+      include: {
+        course: true
+      }
+    });
+
+    res.json({
+      message: 'Coupon updated successfully',
+      coupon: formatCoupon(coupon)
+    });
+  })
+);
+
+// Deactivate a coupon (kept for redemption history)
+router.delete('/coupons/:id',
+  requirePermission(PERMISSIONS.MANAGE_PAYMENTS),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    const existing = await prisma.coupon.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      throw new CustomError('Coupon not found', 404, 'COUPON_NOT_FOUND');
+    }
+
+    await prisma.coupon.update({
+      where: { id },
+      data: { isActive: false }
+    });
+
+    res.json({
+      message: 'Coupon deactivated successfully'
+    });
+  })
+);
+
+// List active scholarships
+router.get('/scholarships',
+  requirePermission(PERMISSIONS.MANAGE_PAYMENTS),
+  validateQuery(paginationValidation.concat(scholarshipQueryValidation)),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { page = 1, limit = 10, sortOrder = 'desc', studentId, courseId } = req.query as any;
+    const offset = (page - 1) * limit;
+
+    const where: Prisma.ScholarshipWhereInput = {
+      isActive: true,
+      ...(studentId && { studentId }),
+      ...(courseId && { courseId })
+    };
+
+    const [scholarships, total] = await Promise.all([
+      prisma.scholarship.findMany({
+        where,
+        include: {
+          student: {
+            include: {
+              user: true
+            }
+          },
+          course: true
+        },
+        orderBy: { createdAt: sortOrder },
+        skip: offset,
+        take: limit
+      }),
+      prisma.scholarship.count({ where })
+    ]);
+
+    res.json({
+      scholarships: scholarships.map(formatScholarship),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  })
+);
+
+// Grant a scholarship; it applies to registrations submitted from now on
+router.post('/scholarships',
+  requirePermission(PERMISSIONS.MANAGE_PAYMENTS),
+  validate(scholarshipValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { studentId, courseId } = req.body;
+
+    const student = await prisma.student.findUnique({
+      where: { id: studentId }
+    });
+
+    if (!student) {
+      throw new CustomError('Student not found', 404, 'STUDENT_NOT_FOUND');
+    }
+
+    await assertCourseExists(courseId);
+
+    const scholarship = await prisma.scholarship.create({
+      data: {
+        ...req.body,
+        grantedBy: req.user!.id
+      },
+      include: {
+        student: {
+          include: {
+            user: true
+          }
+        },
+        course: true
+      }
+    });
+
+    res.status(201).json({
+      message: 'Scholarship granted successfully',
+      scholarship: formatScholarship(scholarship)
+    });
+  })
+);
+
+// Withdraw a scholarship; enrollments already priced keep their discount
+router.delete('/scholarships/:id',
+  requirePermission(PERMISSIONS.MANAGE_PAYMENTS),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    const existing = await prisma.scholarship.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      throw new CustomError('Scholarship not found', 404, 'SCHOLARSHIP_NOT_FOUND');
+    }
+
+    await prisma.scholarship.update({
+      where: { id },
+      data: { isActive: false }
+    });
+
+    res.json({
+      message: 'Scholarship withdrawn successfully'
+    });
+  })
+);
+
+// Shape a refund request for admin responses
+const formatRefundRequest = (refund: any) => ({
+  id: refund.id,
+  reason: refund.reason,
+  status: refund.status,
+  eligibility: refund.eligibility,
+  policyNote: refund.policyNote,
+  progressPercent: Math.round(refund.progressPercent),
+  daysSincePayment: refund.daysSincePayment,
+  amountPaid: refund.amountPaid,
+  recommendedAmount: refund.recommendedAmount,
+  approvedAmount: refund.approvedAmount,
+  currency: refund.currency,
+  reviewedBy: refund.reviewedBy,
+  reviewedAt: refund.reviewedAt,
+  reviewNote: refund.reviewNote,
+  processedAt: refund.processedAt,
+  failureReason: refund.failureReason,
+  createdAt: refund.createdAt,
+  enrollment: {
+    id: refund.enrollment.id,
+    status: refund.enrollment.status,
+    paymentStatus: refund.enrollment.paymentStatus
+  },
+  student: {
+    id: refund.enrollment.student.id,
+    name: `${refund.enrollment.student.user.firstName} ${refund.enrollment.student.user.lastName}`,
+    email: refund.enrollment.student.user.email
+  },
+  course: {
+    id: refund.enrollment.course.id,
+    title: refund.enrollment.course.title
+  }
+});
+
+// List refund requests, oldest first so the queue is worked in order
+router.get('/refunds',
+  requirePermission(PERMISSIONS.MANAGE_PAYMENTS),
+  validateQuery(paginationValidation.concat(refundQueryValidation)),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { page = 1, limit = 10, status } = req.query as any;
+    const offset = (page - 1) * limit;
+
+    const where: Prisma.RefundRequestWhereInput = status ? { status } : {};
+
+    const [refundRequests, total] = await Promise.all([
+      prisma.refundRequest.findMany({
+        where,
+        include: {
+          enrollment: {
+            include: {
+              student: {
+                include: {
+                  user: true
+                }
+              },
+              course: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'asc' },
+        skip: offset,
+        take: limit
+      }),
+      prisma.refundRequest.count({ where })
+    ]);
+
+    res.json({
+      refundRequests: refundRequests.map(formatRefundRequest),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  })
+);
+
+// Approve a refund: refunds through the payment provider and cancels the enrollment
+router.post('/refunds/:id/approve',
+  requirePermission(PERMISSIONS.MANAGE_PAYMENTS),
+  validate(refundApprovalValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const { amount, note } = req.body;
+
+    await approveRefund(id, req.user!.id, { amount, note });
+
+    const refundRequest = await prisma.refundRequest.findUniqueOrThrow({
+      where: { id },
+      include: {
+        enrollment: {
+          include: {
+            student: {
+              include: {
+                user: true
+              }
+            },
+            course: true
+          }
+        }
+      }
+    });
+
+    res.json({
+      message: 'Refund approved and enrollment cancelled',
+      refundRequest: formatRefundRequest(refundRequest)
+    });
+  })
+);
+
+// Deny a refund request
+router.post('/refunds/:id/deny',
+  requirePermission(PERMISSIONS.MANAGE_PAYMENTS),
+  validate(refundDenialValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    await denyRefund(id, req.user!.id, req.body.note);
+
+    const refundRequest = await prisma.refundRequest.findUniqueOrThrow({
+      where: { id },
+      include: {
+        enrollment: {
+          include: {
+            student: {
+              include: {
+                user: true
+              }
+            },
+            course: true
+          }
+        }
+      }
+    });
+
+    res.json({
+      message: 'Refund request denied',
+      refundRequest: formatRefundRequest(refundRequest)
+    });
+  })
+);
+
+// Exchange rates against the reporting currency
+router.get('/exchange-rates',
+  requirePermission(PERMISSIONS.MANAGE_PAYMENTS),
+  asyncHandler(async (_req: express.Request, res: express.Response) => {
+    const exchangeRates = await prisma.exchangeRate.findMany({
+      orderBy: { currency: 'asc' }
+    });
+
+    res.json({
+      reportingCurrency: REPORTING_CURRENCY,
+      exchangeRates: exchangeRates.map(exchangeRate => ({
+        currency: exchangeRate.currency,
+        rate: exchangeRate.rate,
+        updatedBy: exchangeRate.updatedBy,
+        updatedAt: exchangeRate.updatedAt
+      }))
+    });
+  })
+);
+
+// Set the rate for a currency; enrollments already priced keep the rate they were quoted at
+router.put('/exchange-rates/:currency',
+  requirePermission(PERMISSIONS.MANAGE_PAYMENTS),
+  validate(exchangeRateValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const currency = req.params.currency!.toUpperCase();
+    const { rate } = req.body;
+
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      throw new CustomError('Currency must be a 3-letter code', 400, 'INVALID_CURRENCY');
+    }
+
+    if (currency === REPORTING_CURRENCY) {
+      throw new CustomError('The reporting currency always has a rate of 1', 400, 'INVALID_CURRENCY');
+    }
+
+    const exchangeRate = await prisma.exchangeRate.upsert({
+      where: { currency },
+      create: { currency, rate, updatedBy: req.user!.id },
+      update: { rate, updatedBy: req.user!.id }
+    });
+
+    res.json({
+      message: 'Exchange rate updated successfully',
+      exchangeRate: {
+        currency: exchangeRate.currency,
+        rate: exchangeRate.rate,
+        updatedBy: exchangeRate.updatedBy,
+        updatedAt: exchangeRate.updatedAt
+      }
+    });
+  })
+);
+
+// Remove a currency; students can no longer choose to pay in it
+router.delete('/exchange-rates/:currency',
+  requirePermission(PERMISSIONS.MANAGE_PAYMENTS),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const currency = req.params.currency!.toUpperCase();
+
+    const { count } = await prisma.exchangeRate.deleteMany({
+      where: { currency }
+    });
+
+    if (count === 0) {
+      throw new CustomError('Exchange rate not found', 404, 'EXCHANGE_RATE_NOT_FOUND');
+    }
+
+    res.json({
+      message: 'Exchange rate removed successfully'
+    });
+  })
+);
+
+// Seat usage per course: enrolled students, seats held for waitlist offers, and the waiting list
+router.get('/seats',
+  requirePermission(PERMISSIONS.MANAGE_REGISTRATIONS),
+  validateQuery(paginationValidation.concat(searchValidation)),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { page = 1, limit = 10, q } = req.query as any;
+    const offset = (page - 1) * limit;
+
+    const where: Prisma.CourseWhereInput = {
+      isActive: true,
+      ...(q && { title: { contains: q, mode: 'insensitive' as const } })
+    };
+
+    const [courses, total] = await Promise.all([
+      prisma.course.findMany({
+        where,
+        orderBy: { title: 'asc' },
+        skip: offset,
+        take: limit
+      }),
+      prisma.course.count({ where })
+    ]);
+
+    const items = await Promise.all(courses.map(async (course) => {
+      const [seats, waitlisted] = await Promise.all([
+        getSeatUsage(prisma, course),
+        prisma.registration.count({
+          where: {
+            courseId: course.id,
+            status: 'WAITLISTED'
+          }
+        })
+      ]);
+
+      return {
+        course: {
+          id: course.id,
+          title: course.title
+        },
+        ...seats,
+        waitlisted,
+        isFull: seats.available === 0
+      };
+    }));
+
+    res.json({
+      courses: items,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  })
+);
+
+export default router;
@@ -1,21 +1,164 @@
 import express from 'express';
+import rateLimit from 'express-rate-limit';
 import { PrismaClient } from '@prisma/client';
 import { 
   hashPassword, 
   comparePassword, 
   generateToken,
+  startSession,
   authenticateUser 
 } from '../middleware/auth';
 import { 
   validate, 
   loginValidation,
-  passwordChangeValidation 
+  passwordChangeValidation,
+  activationValidation,
+  forgotPasswordValidation,
+  resetPasswordValidation,
+  twoFactorCodeValidation,
+  twoFactorDisableValidation,
+  twoFactorChallengeValidation,
+  twoFactorLoginValidation,
+  emailVerificationValidation,
+  resendVerificationValidation
 } from '../middleware/validation';
 import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { issueUserToken, consumeUserToken, buildTokenUrl, hashToken } from '../services/tokens';
+import { sendMail } from '../services/mail';
+import { sendVerificationEmail } from '../services/emailVerification';
+import { getSessionStore } from '../services/sessions';
+import { rotateRefreshToken } from '../services/refreshTokens';
+import { isAccountLocked, recordFailedLogin, resetFailedLogins } from '../services/loginAttempts';
+import {
+  TWO_FACTOR_CHALLENGE_TTL_MS,
+  isTwoFactorRequired,
+  generateTwoFactorSecret,
+  generateBackupCodes,
+  verifyTotpCode,
+  verifySecondFactor,
+  countRemainingBackupCodes
+} from '../services/twoFactor';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
+// Refresh tokens travel only in an httpOnly cookie scoped to the auth routes
+const REFRESH_COOKIE_NAME = 'refresh_token';
+
+const refreshCookieOptions = (expiresAt?: Date): express.CookieOptions => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict',
+  path: '/api/auth',
+  ...(expiresAt && { expires: expiresAt })
+});
+
+const setRefreshCookie = (res: express.Response, token: string, expiresAt: Date): void => {
+  res.cookie(REFRESH_COOKIE_NAME, token, refreshCookieOptions(expiresAt));
+};
+
+const clearRefreshCookie = (res: express.Response): void => {
+  res.clearCookie(REFRESH_COOKIE_NAME, refreshCookieOptions());
+};
+
+// How long a password reset link stays valid
+const PASSWORD_RESET_TOKEN_TTL_MS = (Number(process.env.PASSWORD_RESET_TOKEN_TTL_MINUTES) || 60) * 60 * 1000;
+
+// Limit reset requests per email address, independent of the global IP limiter
+const passwordResetLimiter = rateLimit({
+  windowMs: Number(process.env.PASSWORD_RESET_WINDOW) || 60 * 60 * 1000, // 1 hour
+  max: Number(process.env.PASSWORD_RESET_MAX) || 3, // limit each email to 3 requests per windowMs
+  keyGenerator: (req) => String(req.body?.email || req.ip).toLowerCase(),
+  message: 'Too many password reset requests for this email, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Limit verification email resends per address
+const verificationResendLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 3, // limit each email to 3 resends per windowMs
+  keyGenerator: (req) => String(req.body?.email || req.ip).toLowerCase(),
+  message: 'Too many verification emails requested for this address, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Shape the logged-in user for auth responses (never expose the password hash)
+const formatAuthUser = (user: any) => ({
+  id: user.id,
+  email: user.email,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  phone: user.phone,
+  role: user.role,
+  status: user.status,
+  emailVerified: user.emailVerified,
+  twoFactorEnabled: user.twoFactorEnabled,
+  createdAt: user.createdAt,
+  student: user.student ? {
+    id: user.student.id,
+    dateOfBirth: user.student.dateOfBirth,
+    gender: user.student.gender,
+    nationality: user.student.nationality,
+    address: user.student.address,
+    city: user.student.city,
+    state: user.student.state,
+    country: user.student.country
+  } : null,
+  adminUser: user.adminUser ? {
+    id: user.adminUser.id,
+    department: user.adminUser.department,
+    permissions: user.adminUser.permissions
+  } : null
+});
+
+// Start a session and send the login response
+const completeLogin = async (
+  req: express.Request,
+  res: express.Response,
+  user: { id: string; email: string; role: string },
+  extra: Record<string, unknown> = {}
+): Promise<void> => {
+  // Short-lived access token plus a refresh token cookie
+  const { accessToken: token, refreshToken, expiresAt } = await startSession(user, req);
+  setRefreshCookie(res, refreshToken, expiresAt);
+
+  res.json({
+    message: 'Login successful',
+    token,
+    user: formatAuthUser(user),
+    ...extra
+  });
+};
+
+// Resolve a pending two-factor challenge to its user
+const findChallengeUser = async (challengeToken: string) => {
+  const challenge = await prisma.userToken.findFirst({
+    where: {
+      tokenHash: hashToken(challengeToken),
+      type: 'TWO_FACTOR_CHALLENGE',
+      usedAt: null,
+      expiresAt: { gt: new Date() }
+    },
+    include: {
+      user: {
+        include: {
+          student: true,
+          adminUser: true
+        }
+      }
+    }
+  });
+
+  // Accounts suspended or locked since the password step cannot finish logging in
+  if (!challenge || challenge.user.status !== 'ACTIVE' || isAccountLocked(challenge.user)) {
+    throw new CustomError('Your login attempt has expired. Please log in again.', 401, 'INVALID_CHALLENGE');
+  }
+
+  return challenge.user;
+};
+
 // Login endpoint
 router.post('/login', validate(loginValidation), asyncHandler(async (req: express.Request, res: express.Response) => {
   const { email, password } = req.body;
@@ -33,52 +176,110 @@ router.post('/login', validate(loginValidation), asyncHandler(async (req: expres
     throw new CustomError('Invalid email or password', 401, 'INVALID_CREDENTIALS');
   }
 
+  // Locked accounts get the same answer as a wrong password, so lockouts do not reveal valid emails
+  if (isAccountLocked(user)) {
+    throw new CustomError('Invalid email or password', 401, 'INVALID_CREDENTIALS');
+  }
+
   // Check if user is active
   if (user.status !== 'ACTIVE') {
     throw new CustomError('Account is inactive. Please contact support.', 401, 'ACCOUNT_INACTIVE');
   }
 
-  // Verify password
-  const isPasswordValid = await comparePassword(password, user.password);
+  // Verify password (accounts awaiting activation have none)
+  const isPasswordValid = user.password !== null && await comparePassword(password, user.password);
   
   if (!isPasswordValid) {
+    await recordFailedLogin(user.id, req.ip ?? null);
     throw new CustomError('Invalid email or password', 401, 'INVALID_CREDENTIALS');
   }
 
-  // Generate JWT token
-  const token = generateToken(user.id, user.email, user.role);
-
-  // Prepare user response (excluding password)
-  const userResponse = {
-    id: user.id,
-    email: user.email,
-    firstName: user.firstName,
-    lastName: user.lastName,
-    phone: user.phone,
-    role: user.role,
-    status: user.status,
-    createdAt: user.createdAt,
-    student: user.student ? {
-      id: user.student.id,
-      dateOfBirth: user.student.dateOfBirth,
-      gender: user.student.gender,
-      nationality: user.student.nationality,
-      address: user.student.address,
-      city: user.student.city,
-      state: user.student.state,
-      country: user.student.country
-    } : null,
-    adminUser: user.adminUser ? {
-      id: user.adminUser.id,
-      department: user.adminUser.department,
-      permissions: user.adminUser.permissions
-    } : null
-  };
+  if (user.failedLoginAttempts > 0 || user.lockoutCount > 0) {
+    await resetFailedLogins(user.id);
+  }
+
+  // Accounts with two-factor authentication get a challenge instead of a session
+  if (isTwoFactorRequired(user)) {
+    const { token: challengeToken, expiresAt: challengeExpiresAt } = await issueUserToken(
+      prisma,
+      user.id,
+      'TWO_FACTOR_CHALLENGE',
+      TWO_FACTOR_CHALLENGE_TTL_MS
+    );
+
+    res.json({
+      message: user.twoFactorEnabled
+        ? 'Two-factor authentication required'
+        : 'Two-factor authentication must be set up before you can log in',
+      twoFactorRequired: true,
+      twoFactorSetupRequired: !user.twoFactorEnabled,
+      challengeToken,
+      challengeExpiresAt
+    });
+    return;
+  }
+
+  await completeLogin(req, res, user);
+}));
+
+// Second login step: verify a TOTP or backup code against the challenge from /login
+router.post('/login/2fa', validate(twoFactorLoginValidation), asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { challengeToken, code } = req.body;
+
+  const user = await findChallengeUser(challengeToken);
+  const completingSetup = !user.twoFactorEnabled;
+
+  if (completingSetup && !user.twoFactorSecret) {
+    throw new CustomError('Set up two-factor authentication before logging in', 400, 'TWO_FACTOR_SETUP_REQUIRED');
+  }
+
+  if (!(await verifySecondFactor(user, code))) {
+    await recordFailedLogin(user.id, req.ip ?? null);
+    throw new CustomError('Invalid authentication code', 401, 'INVALID_TWO_FACTOR_CODE');
+  }
+
+  await consumeUserToken(prisma, challengeToken, 'TWO_FACTOR_CHALLENGE');
+
+  // First successful code confirms enrollment (admins enrolling during login)
+  if (completingSetup) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorEnabled: true }
+    });
+
+    const backupCodes = await generateBackupCodes(user.id);
+    const enrolledUser = { ...user, twoFactorEnabled: true };
+    await completeLogin(req, res, enrolledUser, { backupCodes });
+    return;
+  }
+
+  await completeLogin(req, res, user);
+}));
+
+// Enroll in two-factor authentication during login (admins without it set up)
+router.post('/login/2fa/setup', validate(twoFactorChallengeValidation), asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { challengeToken } = req.body;
+
+  const user = await findChallengeUser(challengeToken);
+
+  if (user.twoFactorEnabled) {
+    throw new CustomError('Two-factor authentication is already enabled', 400, 'TWO_FACTOR_ALREADY_ENABLED');
+  }
+
+  const { secret, storedSecret, otpauthUrl } = generateTwoFactorSecret(user.email);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      twoFactorSecret: storedSecret,
+      twoFactorLastStep: null
+    }
+  });
 
   res.json({
-    message: 'Login successful',
-    token,
-    user: userResponse
+    message: 'Scan the QR code with your authenticator app, then log in with a code',
+    secret,
+    otpauthUrl
   });
 }));
 
@@ -111,8 +312,8 @@ router.get('/profile', authenticateUser, asyncHandler(async (req: express.Reques
     throw new CustomError('User not found', 404, 'USER_NOT_FOUND');
   }
 
-  // Remove password from response
-  const { password, ...userWithoutPassword } = user;
+  // Remove password and two-factor secrets from response
+  const { password, twoFactorSecret, twoFactorLastStep, ...userWithoutPassword } = user;
 
   res.json({
     message: 'Profile retrieved successfully',
@@ -139,8 +340,8 @@ router.put('/profile', authenticateUser, asyncHandler(async (req: express.Reques
     }
   });
 
-  // Remove password from response
-  const { password, ...userWithoutPassword } = updatedUser;
+  // Remove password and two-factor secrets from response
+  const { password, twoFactorSecret, twoFactorLastStep, ...userWithoutPassword } = updatedUser;
 
   res.json({
     message: 'Profile updated successfully',
@@ -166,7 +367,7 @@ router.post('/change-password',
     }
 
     // Verify current password
-    const isCurrentPasswordValid = await comparePassword(currentPassword, user.password);
+    const isCurrentPasswordValid = user.password !== null && await comparePassword(currentPassword, user.password);
     
     if (!isCurrentPasswordValid) {
       throw new CustomError('Current password is incorrect', 400, 'INVALID_PASSWORD');
@@ -178,24 +379,378 @@ router.post('/change-password',
     // Update password
     await prisma.user.update({
       where: { id: userId },
-      data: { password: hashedNewPassword }
+      data: {
+        password: hashedNewPassword,
+        passwordChangedAt: new Date()
+      }
+    });
+
+    // Sign out every other device; the current session stays active
+    const revokedSessions = await getSessionStore().revokeAllForUser(userId, 'PASSWORD_CHANGED', req.user!.sessionId);
+
+    res.json({
+      message: 'Password changed successfully',
+      revokedSessions
+    });
+  })
+);
+
+// Two-factor authentication status
+router.get('/2fa', authenticateUser, asyncHandler(async (req: express.Request, res: express.Response) => {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: req.user!.id }
+  });
+
+  res.json({
+    enabled: user.twoFactorEnabled,
+    required: user.role === 'ADMIN',
+    backupCodesRemaining: user.twoFactorEnabled ? await countRemainingBackupCodes(user.id) : 0
+  });
+}));
+
+// Start two-factor enrollment: returns a new secret and otpauth URI
+router.post('/2fa/setup', authenticateUser, asyncHandler(async (req: express.Request, res: express.Response) => {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: req.user!.id }
+  });
+
+  if (user.twoFactorEnabled) {
+    throw new CustomError('Two-factor authentication is already enabled', 400, 'TWO_FACTOR_ALREADY_ENABLED');
+  }
+
+  const { secret, storedSecret, otpauthUrl } = generateTwoFactorSecret(user.email);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      twoFactorSecret: storedSecret,
+      twoFactorLastStep: null
+    }
+  });
+
+  res.json({
+    message: 'Scan the QR code with your authenticator app, then confirm with a code',
+    secret,
+    otpauthUrl
+  });
+}));
+
+// Confirm enrollment with a code from the authenticator app
+router.post('/2fa/enable',
+  authenticateUser,
+  validate(twoFactorCodeValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: req.user!.id }
     });
 
+    if (user.twoFactorEnabled) {
+      throw new CustomError('Two-factor authentication is already enabled', 400, 'TWO_FACTOR_ALREADY_ENABLED');
+    }
+
+    if (!user.twoFactorSecret) {
+      throw new CustomError('Start two-factor setup first', 400, 'TWO_FACTOR_SETUP_REQUIRED');
+    }
+
+    if (!(await verifyTotpCode(user, req.body.code))) {
+      throw new CustomError('Invalid authentication code', 400, 'INVALID_TWO_FACTOR_CODE');
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorEnabled: true }
+    });
+
+    const backupCodes = await generateBackupCodes(user.id);
+
     res.json({
-      message: 'Password changed successfully'
+      message: 'Two-factor authentication enabled. Store your backup codes somewhere safe.',
+      backupCodes
     });
   })
 );
 
-// Logout endpoint (client-side token removal, server-side optional)
+// Turn two-factor authentication off (not allowed for admins)
+router.post('/2fa/disable',
+  authenticateUser,
+  validate(twoFactorDisableValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { password, code } = req.body;
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: req.user!.id }
+    });
+
+    if (user.role === 'ADMIN') {
+      throw new CustomError('Two-factor authentication is required for admin accounts', 403, 'TWO_FACTOR_REQUIRED');
+    }
+
+    if (!user.twoFactorEnabled) {
+      throw new CustomError('Two-factor authentication is not enabled', 400, 'TWO_FACTOR_NOT_ENABLED');
+    }
+
+    const isPasswordValid = user.password !== null && await comparePassword(password, user.password);
+
+    if (!isPasswordValid) {
+      throw new CustomError('Current password is incorrect', 400, 'INVALID_PASSWORD');
+    }
+
+    if (!(await verifySecondFactor(user, code))) {
+      throw new CustomError('Invalid authentication code', 400, 'INVALID_TWO_FACTOR_CODE');
+    }
+
+    await prisma.$transaction([
+      prisma.backupCode.deleteMany({
+        where: { userId: user.id }
+      }),
+      prisma.user.update({
+        where: { id: user.id },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorLastStep: null
+        }
+      })
+    ]);
+
+    res.json({
+      message: 'Two-factor authentication disabled'
+    });
+  })
+);
+
+// Replace backup codes (invalidates the old ones)
+router.post('/2fa/backup-codes',
+  authenticateUser,
+  validate(twoFactorCodeValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: req.user!.id }
+    });
+
+    if (!user.twoFactorEnabled) {
+      throw new CustomError('Two-factor authentication is not enabled', 400, 'TWO_FACTOR_NOT_ENABLED');
+    }
+
+    if (!(await verifySecondFactor(user, req.body.code))) {
+      throw new CustomError('Invalid authentication code', 400, 'INVALID_TWO_FACTOR_CODE');
+    }
+
+    const backupCodes = await generateBackupCodes(user.id);
+
+    res.json({
+      message: 'New backup codes generated',
+      backupCodes
+    });
+  })
+);
+
+// Activate an approved account by choosing a password
+router.post('/activate', validate(activationValidation), asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { token, password } = req.body;
+
+  const hashedPassword = await hashPassword(password);
+
+  const user = await prisma.$transaction(async (tx) => {
+    const activation = await consumeUserToken(tx, token, 'ACCOUNT_ACTIVATION');
+
+    const existing = await tx.user.findUniqueOrThrow({
+      where: { id: activation.userId }
+    });
+
+    if (existing.status === 'SUSPENDED') {
+      throw new CustomError('Account is suspended. Please contact support.', 403, 'ACCOUNT_SUSPENDED');
+    }
+
+    return tx.user.update({
+      where: { id: activation.userId },
+      data: {
+        password: hashedPassword,
+        status: 'ACTIVE'
+      }
+    });
+  });
+
+  res.json({
+    message: 'Account activated successfully. You can now log in.',
+    user: {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName
+    }
+  });
+}));
+
+// Request a password reset link
+router.post('/forgot-password',
+  validate(forgotPasswordValidation),
+  passwordResetLimiter,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { email } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() }
+    });
+
+    // Only active accounts with a password can be reset; others get the same response
+    if (user && user.status === 'ACTIVE' && user.password) {
+      const { token } = await issueUserToken(prisma, user.id, 'PASSWORD_RESET', PASSWORD_RESET_TOKEN_TTL_MS);
+      const resetUrl = buildTokenUrl('/reset-password', token);
+      const minutes = Math.round(PASSWORD_RESET_TOKEN_TTL_MS / 60000);
+
+      // Not awaited, so response timing does not depend on mail delivery
+      sendMail({
+        to: user.email,
+        subject: 'Reset your Eck School of Business password',
+        text: `Dear ${user.firstName},\n\n` +
+              `We received a request to reset your password. Use the link below to choose a new one:\n\n` +
+              `${resetUrl}\n\n` +
+              `This link expires in ${minutes} minutes and can only be used once. ` +
+              `If you did not request a reset, you can ignore this email.`
+      }).catch(error => {
+        console.error('Password reset email failed:', error);
+      });
+    }
+
+    res.json({
+      message: 'If an account exists for this email, a password reset link has been sent'
+    });
+  })
+);
+
+// Reset password with a token from the reset email
+router.post('/reset-password', validate(resetPasswordValidation), asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { token, password } = req.body;
+
+  const hashedPassword = await hashPassword(password);
+
+  const userId = await prisma.$transaction(async (tx) => {
+    const reset = await consumeUserToken(tx, token, 'PASSWORD_RESET');
+
+    await tx.user.update({
+      where: { id: reset.userId },
+      data: {
+        password: hashedPassword,
+        passwordChangedAt: new Date(),
+        // Proving ownership of the mailbox verifies it and lifts any login lockout
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+        failedLoginAttempts: 0,
+        lockoutCount: 0,
+        lockedUntil: null
+      }
+    });
+
+    return reset.userId;
+  });
+
+  // Whoever knew the old password must not stay signed in
+  await getSessionStore().revokeAllForUser(userId, 'PASSWORD_RESET');
+
+  res.json({
+    message: 'Password reset successfully. Please log in with your new password.'
+  });
+}));
+
+// Verify an email address with a token from the verification email
+router.post('/verify-email', validate(emailVerificationValidation), asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { token } = req.body;
+
+  await prisma.$transaction(async (tx) => {
+    const verification = await consumeUserToken(tx, token, 'EMAIL_VERIFICATION');
+
+    await tx.user.update({
+      where: { id: verification.userId },
+      data: {
+        emailVerified: true,
+        emailVerifiedAt: new Date()
+      }
+    });
+  });
+
+  res.json({
+    message: 'Email verified successfully'
+  });
+}));
+
+// Resend the verification email
+router.post('/verify-email/resend',
+  validate(resendVerificationValidation),
+  verificationResendLimiter,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { email } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() }
+    });
+
+    // Same response whether or not the address exists or is already verified
+    if (user && !user.emailVerified && user.status !== 'SUSPENDED') {
+      await sendVerificationEmail(user);
+    }
+
+    res.json({
+      message: 'If this email needs verification, a new link has been sent'
+    });
+  })
+);
+
+// Logout endpoint - revokes the current session
 router.post('/logout', authenticateUser, asyncHandler(async (req: express.Request, res: express.Response) => {
-  // In a more complex setup, you might want to blacklist the token
-  // For now, we'll just send a success response
+  await getSessionStore().revoke(req.user!.sessionId, 'LOGOUT');
+  clearRefreshCookie(res);
+
   res.json({
     message: 'Logout successful'
   });
 }));
 
+// Log out of every device
+router.post('/logout-all', authenticateUser, asyncHandler(async (req: express.Request, res: express.Response) => {
+  const revokedSessions = await getSessionStore().revokeAllForUser(req.user!.id, 'LOGOUT_ALL');
+  clearRefreshCookie(res);
+
+  res.json({
+    message: 'Logged out of all devices',
+    revokedSessions
+  });
+}));
+
+// List active sessions (devices) for the current user
+router.get('/sessions', authenticateUser, asyncHandler(async (req: express.Request, res: express.Response) => {
+  const sessions = await getSessionStore().listForUser(req.user!.id);
+
+  res.json({
+    sessions: sessions.map(session => ({
+      id: session.id,
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      current: session.id === req.user!.sessionId
+    }))
+  });
+}));
+
+// Revoke one of the current user's sessions
+router.delete('/sessions/:sessionId', authenticateUser, asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { sessionId } = req.params;
+  const store = getSessionStore();
+
+  const session = await store.get(sessionId);
+
+  if (!session || session.userId !== req.user!.id) {
+    throw new CustomError('Session not found', 404, 'SESSION_NOT_FOUND');
+  }
+
+  await store.revoke(sessionId, 'LOGOUT');
+
+  res.json({
+    message: 'Session revoked successfully'
+  });
+}));
+
 // Check authentication status
 router.get('/verify', authenticateUser, asyncHandler(async (req: express.Request, res: express.Response) => {
   res.json({
@@ -209,17 +764,38 @@ router.get('/verify', authenticateUser, asyncHandler(async (req: express.Request
   });
 }));
 
-// Refresh token (optional - for extending session)
-router.post('/refresh', authenticateUser, asyncHandler(async (req: express.Request, res: express.Response) => {
-  const user = req.user!;
-  
-  // Generate new token
-  const newToken = generateToken(user.id, user.email, user.role);
-  
-  res.json({
-    message: 'Token refreshed successfully',
-    token: newToken
-  });
+// Refresh access token - rotates the refresh token cookie on every use
+router.post('/refresh', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const presentedToken = req.cookies?.[REFRESH_COOKIE_NAME];
+
+  if (!presentedToken) {
+    throw new CustomError('Refresh token is missing', 401, 'REFRESH_TOKEN_MISSING');
+  }
+
+  try {
+    const rotated = await rotateRefreshToken(presentedToken);
+
+    const user = await prisma.user.findUnique({
+      where: { id: rotated.userId }
+    });
+
+    if (!user || user.status !== 'ACTIVE') {
+      await getSessionStore().revoke(rotated.sessionId, 'USER_SUSPENDED');
+      throw new CustomError('Account is inactive. Please contact support.', 401, 'ACCOUNT_INACTIVE');
+    }
+
+    const newToken = generateToken(user.id, user.email, user.role, rotated.sessionId);
+    setRefreshCookie(res, rotated.refreshToken, rotated.expiresAt);
+
+    res.json({
+      message: 'Token refreshed successfully',
+      token: newToken
+    });
+  } catch (error) {
+    // A failed refresh leaves nothing usable behind in the browser
+    clearRefreshCookie(res);
+    throw error;
+  }
 }));
 
 export default router;
@@ -0,0 +1,1070 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import {
+  authenticateUser,
+  optionalAuth,
+  requirePermission,
+  requireInstructor,
+  requireCourseInstructorOrAdmin,
+  isCourseInstructor
+} from '../middleware/auth';
+import {
+  validate,
+  courseValidation,
+  moduleValidation,
+  lessonValidation,
+  reorderValidation,
+  courseInstructorValidation,
+  installmentPlanValidation,
+  lessonFileValidation,
+  validateQuery,
+  paginationValidation,
+  searchValidation
+} from '../middleware/validation';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { PERMISSIONS } from '../config/permissions';
+import { syncCourseProgress } from '../services/progress';
+import { requireEnrollment } from '../services/enrollments';
+import { assertLessonAccess } from '../services/courseAccess';
+import { listCoursePrices } from '../services/exchangeRates';
+import { assertValidInstallmentPlan } from '../services/installments';
+import { documentUpload } from '../middleware/upload';
+import { saveUpload, deleteStoredFiles, buildFileUrl } from '../services/files';
+import { promoteWaitlist } from '../services/admissions';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Helper to load a course or fail with 404
+const findCourseOrThrow = async (courseId: string) => {
+  const course = await prisma.course.findUnique({
+    where: { id: courseId }
+  });
+
+  if (!course) {
+    throw new CustomError('Course not found', 404, 'COURSE_NOT_FOUND');
+  }
+
+  return course;
+};
+
+// Helper to load a module that belongs to the given course
+const findModuleOrThrow = async (courseId: string, moduleId: string) => {
+  const module = await prisma.courseModule.findFirst({
+    where: { id: moduleId, courseId }
+  });
+
+  if (!module) {
+    throw new CustomError('Module not found', 404, 'MODULE_NOT_FOUND');
+  }
+
+  return module;
+};
+
+// Helper to load a lesson that belongs to the given module
+const findLessonOrThrow = async (moduleId: string, lessonId: string) => {
+  const lesson = await prisma.lesson.findFirst({
+    where: { id: lessonId, moduleId }
+  });
+
+  if (!lesson) {
+    throw new CustomError('Lesson not found', 404, 'LESSON_NOT_FOUND');
+  }
+
+  return lesson;
+};
+
+// Shape an uploaded lesson file for API responses
+const formatLessonFile = (file: any) => ({
+  id: file.id,
+  title: file.title,
+  originalName: file.originalName,
+  mimeType: file.mimeType,
+  size: file.size,
+  createdAt: file.createdAt,
+  url: buildFileUrl('lesson-files', file.id)
+});
+
+// Get course catalog (public)
+router.get('/',
+  optionalAuth,
+  validateQuery(paginationValidation.concat(searchValidation)),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { page = 1, limit = 10, sortBy = 'createdAt', sortOrder = 'desc', q, category } = req.query as any;
+    const offset = (page - 1) * limit;
+    const isAdmin = req.user?.role === 'ADMIN';
+
+    // Build where clause
+    const where: any = {};
+
+    // Only admins can see deactivated courses
+    if (!isAdmin) {
+      where.isActive = true;
+    }
+
+    if (category) {
+      where.category = { equals: category, mode: 'insensitive' };
+    }
+
+    if (q) {
+      where.OR = [
+        { title: { contains: q, mode: 'insensitive' } },
+        { description: { contains: q, mode: 'insensitive' } }
+      ];
+    }
+
+    const [courses, total] = await Promise.all([
+      prisma.course.findMany({
+        where,
+        include: {
+          modules: {
+            select: {
+              _count: {
+                select: { lessons: true }
+              }
+            }
+          }
+        },
+        orderBy: { [sortBy]: sortOrder },
+        skip: offset,
+        take: limit
+      }),
+      prisma.course.count({ where })
+    ]);
+
+    res.json({
+      courses: courses.map(course => ({
+        id: course.id,
+        title: course.title,
+        description: course.description,
+        category: course.category,
+        level: course.level,
+        duration: course.duration,
+        price: course.price,
+        currency: course.currency,
+        accessType: course.accessType,
+        imageUrl: course.imageUrl,
+        maxStudents: course.maxStudents,
+        prerequisites: course.prerequisites,
+        isActive: course.isActive,
+        totalModules: course.modules.length,
+        totalLessons: course.modules.reduce((acc, module) => acc + module._count.lessons, 0)
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  })
+);
+
+// Get courses taught by the current instructor
+router.get('/teaching',
+  authenticateUser,
+  requireInstructor,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const assignments = await prisma.courseInstructor.findMany({
+      where: { userId: req.user!.id },
+      include: {
+        course: {
+          include: {
+            _count: {
+              select: { enrollments: true }
+            }
+          }
+        }
+      },
+      orderBy: { assignedAt: 'desc' }
+    });
+
+    res.json({
+      courses: assignments.map(({ course, assignedAt }) => ({
+        id: course.id,
+        title: course.title,
+        category: course.category,
+        level: course.level,
+        isActive: course.isActive,
+        totalEnrollments: course._count.enrollments,
+        assignedAt
+      }))
+    });
+  })
+);
+
+// Get single course with its outline (public)
+router.get('/:id',
+  optionalAuth,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const isAdmin = req.user?.role === 'ADMIN';
+
+    const course = await prisma.course.findUnique({
+      where: { id },
+      include: {
+        modules: {
+          orderBy: { orderIndex: 'asc' },
+          include: {
+            lessons: {
+              orderBy: { orderIndex: 'asc' }
+            }
+          }
+        }
+      }
+    });
+
+    if (!course || (!course.isActive && !isAdmin)) {
+      throw new CustomError('Course not found', 404, 'COURSE_NOT_FOUND');
+    }
+
+    res.json({
+      course: {
+        id: course.id,
+        title: course.title,
+        description: course.description,
+        category: course.category,
+        level: course.level,
+        duration: course.duration,
+        price: course.price,
+        currency: course.currency,
+        // The same price in every currency students can pay in
+        prices: await listCoursePrices(prisma, course),
+        accessType: course.accessType,
+        imageUrl: course.imageUrl,
+        maxStudents: course.maxStudents,
+        prerequisites: course.prerequisites,
+        isActive: course.isActive,
+        totalModules: course.modules.length,
+        totalLessons: course.modules.reduce((acc, module) => acc + module.lessons.length, 0),
+        modules: course.modules.map(module => ({
+          id: module.id,
+          title: module.title,
+          description: module.description,
+          orderIndex: module.orderIndex,
+          // First module of a PREVIEW course is open before payment
+          isPreview: course.accessType === 'PREVIEW' && module.id === course.modules[0]?.id,
+          // Lesson content is only exposed to enrolled students and admins
+          lessons: module.lessons.map(lesson => ({
+            id: lesson.id,
+            title: lesson.title,
+            description: lesson.description,
+            duration: lesson.duration,
+            orderIndex: lesson.orderIndex,
+            ...(isAdmin && {
+              content: lesson.content,
+              videoUrl: lesson.videoUrl,
+              resources: lesson.resources
+            })
+          }))
+        }))
+      }
+    });
+  })
+);
+
+// Get lesson content (enrolled students, course instructors and admins)
+router.get('/:id/lessons/:lessonId',
+  authenticateUser,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id, lessonId } = req.params;
+
+    const lesson = await prisma.lesson.findFirst({
+      where: {
+        id: lessonId,
+        module: { courseId: id }
+      },
+      include: {
+        module: true,
+        files: {
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+
+    if (!lesson) {
+      throw new CustomError('Lesson not found', 404, 'LESSON_NOT_FOUND');
+    }
+
+    const canManage = req.user!.role === 'ADMIN'
+      || (req.user!.role === 'INSTRUCTOR' && await isCourseInstructor(req.user!.id, id));
+
+    if (!canManage) {
+      const { enrollment } = await requireEnrollment(req.user!.id, id, ['ACTIVE', 'COMPLETED']);
+      await assertLessonAccess(id, enrollment, lesson.moduleId);
+    }
+
+    res.json({
+      lesson: {
+        id: lesson.id,
+        title: lesson.title,
+        description: lesson.description,
+        content: lesson.content,
+        videoUrl: lesson.videoUrl,
+        duration: lesson.duration,
+        orderIndex: lesson.orderIndex,
+        resources: lesson.resources,
+        files: lesson.files.map(formatLessonFile),
+        module: {
+          id: lesson.module.id,
+          title: lesson.module.title,
+          orderIndex: lesson.module.orderIndex
+        }
+      }
+    });
+  })
+);
+
+// Create course (Admin only)
+router.post('/',
+  authenticateUser,
+  requirePermission(PERMISSIONS.MANAGE_COURSES),
+  validate(courseValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const course = await prisma.course.create({
+      data: req.body
+    });
+
+    res.status(201).json({
+      message: 'Course created successfully',
+      course
+    });
+  })
+);
+
+// Update course (Admin only)
+router.put('/:id',
+  authenticateUser,
+  requirePermission(PERMISSIONS.MANAGE_COURSES),
+  validate(courseValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    await findCourseOrThrow(id);
+
+    const course = await prisma.course.update({
+      where: { id },
+      data: req.body
+    });
+
+    // A higher seat limit may make room for waitlisted applicants
+    if (req.body.maxStudents !== undefined) {
+      await promoteWaitlist(id);
+    }
+
+    res.json({
+      message: 'Course updated successfully',
+      course
+    });
+  })
+);
+
+// Soft-delete course (Admin only)
+router.delete('/:id',
+  authenticateUser,
+  requirePermission(PERMISSIONS.MANAGE_COURSES),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    await findCourseOrThrow(id);
+
+    // Keep the record so existing enrollments and progress stay intact
+    const course = await prisma.course.update({
+      where: { id },
+      data: { isActive: false }
+    });
+
+    res.json({
+      message: 'Course deactivated successfully',
+      course: {
+        id: course.id,
+        title: course.title,
+        isActive: course.isActive
+      }
+    });
+  })
+);
+
+// Shape an installment plan for API responses
+const formatInstallmentPlan = (plan: any, currency: string) => ({
+  id: plan.id,
+  name: plan.name,
+  numberOfPayments: plan.amounts.length,
+  totalAmount: plan.amounts.reduce((sum: number, amount: number) => sum + amount, 0),
+  currency,
+  graceDays: plan.graceDays,
+  isActive: plan.isActive,
+  schedule: plan.amounts.map((amount: number, index: number) => ({
+    sequence: index + 1,
+    amount,
+    dueAfterDays: plan.dueOffsetsDays[index]
+  }))
+});
+
+// List a course's installment plans (public; admins also see inactive plans)
+router.get('/:id/installment-plans',
+  optionalAuth,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const isAdmin = req.user?.role === 'ADMIN';
+
+    const course = await findCourseOrThrow(id);
+
+    if (!course.isActive && !isAdmin) {
+      throw new CustomError('Course not found', 404, 'COURSE_NOT_FOUND');
+    }
+
+    const plans = await prisma.installmentPlan.findMany({
+      where: {
+        courseId: id,
+        ...(!isAdmin && { isActive: true })
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({
+      plans: plans.map(plan => formatInstallmentPlan(plan, course.currency))
+    });
+  })
+);
+
+// Create installment plan (Admin only)
+router.post('/:id/installment-plans',
+  authenticateUser,
+  requirePermission(PERMISSIONS.MANAGE_COURSES),
+  validate(installmentPlanValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const { name, amounts, dueOffsetsDays, graceDays, isActive } = req.body;
+
+    const course = await findCourseOrThrow(id);
+    assertValidInstallmentPlan(amounts, dueOffsetsDays);
+
+    const plan = await prisma.installmentPlan.create({
+      data: {
+        courseId: id,
+        name,
+        amounts,
+        dueOffsetsDays,
+        graceDays,
+        isActive
+      }
+    });
+
+    res.status(201).json({
+      message: 'Installment plan created successfully',
+      plan: formatInstallmentPlan(plan, course.currency)
+    });
+  })
+);
+
+// Update installment plan (Admin only); installments already scheduled keep their terms
+router.put('/:id/installment-plans/:planId',
+  authenticateUser,
+  requirePermission(PERMISSIONS.MANAGE_COURSES),
+  validate(installmentPlanValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id, planId } = req.params;
+    const { name, amounts, dueOffsetsDays, graceDays, isActive } = req.body;
+
+    const course = await findCourseOrThrow(id);
+    assertValidInstallmentPlan(amounts, dueOffsetsDays);
+
+    const existing = await prisma.installmentPlan.findFirst({
+      where: { id: planId, courseId: id }
+    });
+
+    if (!existing) {
+      throw new CustomError('Installment plan not found', 404, 'INSTALLMENT_PLAN_NOT_FOUND');
+    }
+
+    const plan = await prisma.installmentPlan.update({
+      where: { id: planId },
+      data: {
+        name,
+        amounts,
+        dueOffsetsDays,
+        graceDays,
+        isActive
+      }
+    });
+
+    res.json({
+      message: 'Installment plan updated successfully',
+      plan: formatInstallmentPlan(plan, course.currency)
+    });
+  })
+);
+
+// Deactivate installment plan (Admin only)
+router.delete('/:id/installment-plans/:planId',
+  authenticateUser,
+  requirePermission(PERMISSIONS.MANAGE_COURSES),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id, planId } = req.params;
+
+    const existing = await prisma.installmentPlan.findFirst({
+      where: { id: planId, courseId: id }
+    });
+
+    if (!existing) {
+      throw new CustomError('Installment plan not found', 404, 'INSTALLMENT_PLAN_NOT_FOUND');
+    }
+
+    // Keep the record; enrollments already on the plan still follow it
+    await prisma.installmentPlan.update({
+      where: { id: planId },
+      data: { isActive: false }
+    });
+
+    res.json({
+      message: 'Installment plan deactivated successfully'
+    });
+  })
+);
+
+// List course instructors (Admin only)
+router.get('/:id/instructors',
+  authenticateUser,
+  requirePermission(PERMISSIONS.MANAGE_COURSES),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    await findCourseOrThrow(id);
+
+    const assignments = await prisma.courseInstructor.findMany({
+      where: { courseId: id },
+      include: {
+        user: true
+      },
+      orderBy: { assignedAt: 'asc' }
+    });
+
+    res.json({
+      instructors: assignments.map(assignment => ({
+        id: assignment.user.id,
+        name: `${assignment.user.firstName} ${assignment.user.lastName}`,
+        email: assignment.user.email,
+        status: assignment.user.status,
+        assignedAt: assignment.assignedAt
+      }))
+    });
+  })
+);
+
+// Assign an instructor to a course (Admin only)
+router.post('/:id/instructors',
+  authenticateUser,
+  requirePermission(PERMISSIONS.MANAGE_COURSES),
+  validate(courseInstructorValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const { userId } = req.body;
+
+    await findCourseOrThrow(id);
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new CustomError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    if (user.role !== 'INSTRUCTOR') {
+      throw new CustomError('Only users with the INSTRUCTOR role can be assigned to courses', 400, 'NOT_INSTRUCTOR');
+    }
+
+    const assignment = await prisma.courseInstructor.upsert({
+      where: {
+        courseId_userId: { courseId: id, userId }
+      },
+      update: {},
+      create: {
+        courseId: id,
+        userId,
+        assignedBy: req.user!.id
+      }
+    });
+
+    res.status(201).json({
+      message: 'Instructor assigned successfully',
+      assignment
+    });
+  })
+);
+
+// Remove an instructor from a course (Admin only)
+router.delete('/:id/instructors/:userId',
+  authenticateUser,
+  requirePermission(PERMISSIONS.MANAGE_COURSES),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id, userId } = req.params;
+
+    const { count } = await prisma.courseInstructor.deleteMany({
+      where: { courseId: id, userId }
+    });
+
+    if (count === 0) {
+      throw new CustomError('Instructor is not assigned to this course', 404, 'ASSIGNMENT_NOT_FOUND');
+    }
+
+    res.json({
+      message: 'Instructor removed successfully'
+    });
+  })
+);
+
+// Get enrolled students with progress (Course instructors and admins)
+router.get('/:id/roster',
+  authenticateUser,
+  requireCourseInstructorOrAdmin('id', PERMISSIONS.MANAGE_STUDENTS),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    await findCourseOrThrow(id);
+
+    const [enrollments, progressRecords] = await Promise.all([
+      prisma.enrollment.findMany({
+        where: { courseId: id },
+        include: {
+          student: {
+            include: {
+              user: true
+            }
+          }
+        },
+        orderBy: { enrolledAt: 'asc' }
+      }),
+      prisma.studentProgress.findMany({
+        where: { courseId: id }
+      })
+    ]);
+
+    const progressByStudent = new Map(progressRecords.map(p => [p.studentId, p]));
+
+    res.json({
+      roster: enrollments.map(enrollment => {
+        const progress = progressByStudent.get(enrollment.studentId);
+
+        return {
+          enrollmentId: enrollment.id,
+          status: enrollment.status,
+          enrolledAt: enrollment.enrolledAt,
+          completedAt: enrollment.completedAt,
+          student: {
+            id: enrollment.student.id,
+            name: `${enrollment.student.user.firstName} ${enrollment.student.user.lastName}`,
+            email: enrollment.student.user.email,
+            phone: enrollment.student.user.phone
+          },
+          progress: {
+            completedLessons: progress?.completedLessons ?? 0,
+            totalLessons: progress?.totalLessons ?? 0,
+            progressPercent: Math.round(progress?.progressPercent ?? 0),
+            totalTimeSpent: progress?.totalTimeSpent ?? 0,
+            lastAccessedAt: progress?.lastAccessedAt ?? null
+          }
+        };
+      })
+    });
+  })
+);
+
+// Get one enrolled student's lesson progress (Course instructors and admins)
+router.get('/:id/roster/:studentId',
+  authenticateUser,
+  requireCourseInstructorOrAdmin('id', PERMISSIONS.MANAGE_STUDENTS),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id, studentId } = req.params;
+
+    const enrollment = await prisma.enrollment.findUnique({
+      where: {
+        studentId_courseId: { studentId, courseId: id }
+      },
+      include: {
+        student: {
+          include: {
+            user: true
+          }
+        }
+      }
+    });
+
+    // Only students enrolled in this course are visible here
+    if (!enrollment) {
+      throw new CustomError('Student is not enrolled in this course', 404, 'NOT_ENROLLED');
+    }
+
+    const progress = await prisma.studentProgress.findUnique({
+      where: {
+        studentId_courseId: { studentId, courseId: id }
+      },
+      include: {
+        lessonProgress: {
+          include: {
+            lesson: {
+              include: {
+                module: true
+              }
+            }
+          }
+        }
+      }
+    });
+
+    res.json({
+      student: {
+        id: enrollment.student.id,
+        name: `${enrollment.student.user.firstName} ${enrollment.student.user.lastName}`,
+        email: enrollment.student.user.email
+      },
+      enrollment: {
+        id: enrollment.id,
+        status: enrollment.status,
+        enrolledAt: enrollment.enrolledAt,
+        completedAt: enrollment.completedAt
+      },
+      progress: progress ? {
+        completedLessons: progress.completedLessons,
+        totalLessons: progress.totalLessons,
+        progressPercent: Math.round(progress.progressPercent),
+        totalTimeSpent: progress.totalTimeSpent,
+        lastAccessedAt: progress.lastAccessedAt,
+        lessonDetails: progress.lessonProgress.map(lp => ({
+          lessonId: lp.lesson.id,
+          lessonTitle: lp.lesson.title,
+          moduleTitle: lp.lesson.module.title,
+          isCompleted: lp.isCompleted,
+          completedAt: lp.completedAt,
+          timeSpent: lp.timeSpent
+        }))
+      } : null
+    });
+  })
+);
+
+// Create module (Course instructors and admins)
+router.post('/:id/modules',
+  authenticateUser,
+  requireCourseInstructorOrAdmin('id', PERMISSIONS.MANAGE_COURSES),
+  validate(moduleValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    await findCourseOrThrow(id);
+
+    const module = await prisma.courseModule.create({
+      data: {
+        ...req.body,
+        courseId: id
+      }
+    });
+
+    res.status(201).json({
+      message: 'Module created successfully',
+      module
+    });
+  })
+);
+
+// Reorder modules in a single transaction (Course instructors and admins)
+router.put('/:id/modules/reorder',
+  authenticateUser,
+  requireCourseInstructorOrAdmin('id', PERMISSIONS.MANAGE_COURSES),
+  validate(reorderValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const { items } = req.body as { items: { id: string; orderIndex: number }[] };
+
+    await findCourseOrThrow(id);
+
+    const modules = await prisma.$transaction(async (tx) => {
+      const matching = await tx.courseModule.count({
+        where: {
+          courseId: id,
+          id: { in: items.map(item => item.id) }
+        }
+      });
+
+      if (matching !== items.length) {
+        throw new CustomError('One or more modules do not belong to this course', 400, 'INVALID_MODULE');
+      }
+
+      for (const item of items) {
+        await tx.courseModule.update({
+          where: { id: item.id },
+          data: { orderIndex: item.orderIndex }
+        });
+      }
+
+      return tx.courseModule.findMany({
+        where: { courseId: id },
+        orderBy: { orderIndex: 'asc' }
+      });
+    });
+
+    res.json({
+      message: 'Modules reordered successfully',
+      modules
+    });
+  })
+);
+
+// Update module (Course instructors and admins)
+router.put('/:id/modules/:moduleId',
+  authenticateUser,
+  requireCourseInstructorOrAdmin('id', PERMISSIONS.MANAGE_COURSES),
+  validate(moduleValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id, moduleId } = req.params;
+
+    await findModuleOrThrow(id, moduleId);
+
+    const module = await prisma.courseModule.update({
+      where: { id: moduleId },
+      data: req.body
+    });
+
+    res.json({
+      message: 'Module updated successfully',
+      module
+    });
+  })
+);
+
+// Delete module and its lessons (Course instructors and admins)
+router.delete('/:id/modules/:moduleId',
+  authenticateUser,
+  requireCourseInstructorOrAdmin('id', PERMISSIONS.MANAGE_COURSES),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id, moduleId } = req.params;
+
+    await findModuleOrThrow(id, moduleId);
+
+    const files = await prisma.lessonFile.findMany({
+      where: { lesson: { moduleId } }
+    });
+
+    const totalLessons = await prisma.$transaction(async (tx) => {
+      // Lesson progress does not cascade from lessons, so clear it first
+      await tx.lessonProgress.deleteMany({
+        where: { lesson: { moduleId } }
+      });
+
+      await tx.courseModule.delete({
+        where: { id: moduleId }
+      });
+
+      return syncCourseProgress(tx, id);
+    });
+
+    await deleteStoredFiles(files.map(file => file.storageKey));
+
+    res.json({
+      message: 'Module deleted successfully',
+      totalLessons
+    });
+  })
+);
+
+// Create lesson (Course instructors and admins)
+router.post('/:id/modules/:moduleId/lessons',
+  authenticateUser,
+  requireCourseInstructorOrAdmin('id', PERMISSIONS.MANAGE_COURSES),
+  validate(lessonValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id, moduleId } = req.params;
+
+    await findModuleOrThrow(id, moduleId);
+
+    const [lesson, totalLessons] = await prisma.$transaction(async (tx) => {
+      const created = await tx.lesson.create({
+        data: {
+          ...req.body,
+          moduleId
+        }
+      });
+
+      return [created, await syncCourseProgress(tx, id)] as const;
+    });
+
+    res.status(201).json({
+      message: 'Lesson created successfully',
+      lesson,
+      totalLessons
+    });
+  })
+);
+
+// Reorder lessons within a module in a single transaction (Course instructors and admins)
+router.put('/:id/modules/:moduleId/lessons/reorder',
+  authenticateUser,
+  requireCourseInstructorOrAdmin('id', PERMISSIONS.MANAGE_COURSES),
+  validate(reorderValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id, moduleId } = req.params;
+    const { items } = req.body as { items: { id: string; orderIndex: number }[] };
+
+    await findModuleOrThrow(id, moduleId);
+
+    const lessons = await prisma.$transaction(async (tx) => {
+      const matching = await tx.lesson.count({
+        where: {
+          moduleId,
+          id: { in: items.map(item => item.id) }
+        }
+      });
+
+      if (matching !== items.length) {
+        throw new CustomError('One or more lessons do not belong to this module', 400, 'INVALID_LESSON');
+      }
+
+      for (const item of items) {
+        await tx.lesson.update({
+          where: { id: item.id },
+          data: { orderIndex: item.orderIndex }
+        });
+      }
+
+      return tx.lesson.findMany({
+        where: { moduleId },
+        orderBy: { orderIndex: 'asc' }
+      });
+    });
+
+    res.json({
+      message: 'Lessons reordered successfully',
+      lessons
+    });
+  })
+);
+
+// Update lesson (Course instructors and admins)
+router.put('/:id/modules/:moduleId/lessons/:lessonId',
+  authenticateUser,
+  requireCourseInstructorOrAdmin('id', PERMISSIONS.MANAGE_COURSES),
+  validate(lessonValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id, moduleId, lessonId } = req.params;
+
+    await findModuleOrThrow(id, moduleId);
+    await findLessonOrThrow(moduleId, lessonId);
+
+    const lesson = await prisma.lesson.update({
+      where: { id: lessonId },
+      data: req.body
+    });
+
+    res.json({
+      message: 'Lesson updated successfully',
+      lesson
+    });
+  })
+);
+
+// Delete lesson (Course instructors and admins)
+router.delete('/:id/modules/:moduleId/lessons/:lessonId',
+  authenticateUser,
+  requireCourseInstructorOrAdmin('id', PERMISSIONS.MANAGE_COURSES),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id, moduleId, lessonId } = req.params;
+
+    await findModuleOrThrow(id, moduleId);
+    await findLessonOrThrow(moduleId, lessonId);
+
+    const files = await prisma.lessonFile.findMany({
+      where: { lessonId }
+    });
+
+    const totalLessons = await prisma.$transaction(async (tx) => {
+      await tx.lessonProgress.deleteMany({
+        where: { lessonId }
+      });
+
+      await tx.lesson.delete({
+        where: { id: lessonId }
+      });
+
+      return syncCourseProgress(tx, id);
+    });
+
+    await deleteStoredFiles(files.map(file => file.storageKey));
+
+    res.json({
+      message: 'Lesson deleted successfully',
+      totalLessons
+    });
+  })
+);
+
+// Upload a file to a lesson (Course instructors and admins)
+router.post('/:id/modules/:moduleId/lessons/:lessonId/files',
+  authenticateUser,
+  requireCourseInstructorOrAdmin('id', PERMISSIONS.MANAGE_COURSES),
+  documentUpload,
+  validate(lessonFileValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id, moduleId, lessonId } = req.params;
+
+    await findModuleOrThrow(id, moduleId);
+    await findLessonOrThrow(moduleId, lessonId);
+
+    if (!req.file) {
+      throw new CustomError('Please attach a file', 400, 'FILE_REQUIRED');
+    }
+
+    const stored = await saveUpload(`lessons/${lessonId}`, req.file);
+
+    try {
+      const file = await prisma.lessonFile.create({
+        data: {
+          lessonId,
+          title: req.body.title ?? stored.originalName,
+          ...stored,
+          uploadedBy: req.user!.id
+        }
+      });
+
+      res.status(201).json({
+        message: 'File uploaded successfully',
+        file: formatLessonFile(file)
+      });
+    } catch (error) {
+      await deleteStoredFiles([stored.storageKey]);
+      throw error;
+    }
+  })
+);
+
+// Delete a lesson file (Course instructors and admins)
+router.delete('/:id/modules/:moduleId/lessons/:lessonId/files/:fileId',
+  authenticateUser,
+  requireCourseInstructorOrAdmin('id', PERMISSIONS.MANAGE_COURSES),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id, moduleId, lessonId, fileId } = req.params;
+
+    await findModuleOrThrow(id, moduleId);
+    await findLessonOrThrow(moduleId, lessonId);
+
+    const file = await prisma.lessonFile.findFirst({
+      where: { id: fileId, lessonId }
+    });
+
+    if (!file) {
+      throw new CustomError('File not found', 404, 'FILE_NOT_FOUND');
+    }
+
+    await prisma.lessonFile.delete({
+      where: { id: file.id }
+    });
+
+    await deleteStoredFiles([file.storageKey]);
+
+    res.json({
+      message: 'File deleted successfully'
+    });
+  })
+);
+
+export default router;
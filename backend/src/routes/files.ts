@@ -0,0 +1,134 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticateUser, optionalAuth, isCourseInstructor, adminHasPermissions } from '../middleware/auth';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { PERMISSIONS } from '../config/permissions';
+import { requireEnrollment } from '../services/enrollments';
+import { assertLessonAccess } from '../services/courseAccess';
+import {
+  FileKind,
+  StoredFile,
+  sendStoredFile,
+  signFileUrl,
+  verifyFileSignature
+} from '../services/files';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+type FileUser = { id: string; role: string };
+
+// Look up a stored file with a check of who may download it
+const findFile = async (
+  kind: string,
+  id: string
+): Promise<{ kind: FileKind; file: StoredFile; assertAccess: (user: FileUser) => Promise<void> }> => {
+  switch (kind) {
+    case 'registration-documents': {
+      const document = await prisma.registrationDocument.findUnique({
+        where: { id },
+        include: {
+          registration: {
+            include: {
+              student: true
+            }
+          }
+        }
+      });
+
+      if (!document) {
+        break;
+      }
+
+      return {
+        kind,
+        file: document,
+        // The applicant and admins who review registrations
+        assertAccess: async (user) => {
+          if (document.registration.student.userId === user.id) {
+            return;
+          }
+
+          if (user.role !== 'ADMIN' || !(await adminHasPermissions(user.id, [PERMISSIONS.MANAGE_REGISTRATIONS]))) {
+            throw new CustomError('File not found', 404, 'FILE_NOT_FOUND');
+          }
+        }
+      };
+    }
+
+    case 'lesson-files': {
+      const lessonFile = await prisma.lessonFile.findUnique({
+        where: { id },
+        include: {
+          lesson: {
+            include: {
+              module: true
+            }
+          }
+        }
+      });
+
+      if (!lessonFile) {
+        break;
+      }
+
+      const { courseId } = lessonFile.lesson.module;
+
+      return {
+        kind,
+        file: lessonFile,
+        // Course instructors, admins, and students who can open the lesson
+        assertAccess: async (user) => {
+          if (user.role === 'ADMIN' || (user.role === 'INSTRUCTOR' && await isCourseInstructor(user.id, courseId))) {
+            return;
+          }
+
+          const { enrollment } = await requireEnrollment(user.id, courseId, ['ACTIVE', 'COMPLETED']);
+          await assertLessonAccess(courseId, enrollment, lessonFile.lesson.moduleId);
+        }
+      };
+    }
+  }
+
+  throw new CustomError('File not found', 404, 'FILE_NOT_FOUND');
+};
+
+// Get a short-lived link to a file that works without the Authorization header (e.g. for <img> tags)
+router.get('/:kind/:id/signed-url',
+  authenticateUser,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { kind, id } = req.params;
+
+    const found = await findFile(kind, id);
+    await found.assertAccess(req.user!);
+
+    res.json(signFileUrl(found.kind, id));
+  })
+);
+
+// Download a file, either logged in or with a signed link
+router.get('/:kind/:id',
+  optionalAuth,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { kind, id } = req.params;
+    const { expires, signature } = req.query;
+
+    const found = await findFile(kind, id);
+
+    if (signature !== undefined) {
+      if (!verifyFileSignature(found.kind, id, expires, signature)) {
+        throw new CustomError('This link is invalid or has expired', 403, 'INVALID_SIGNATURE');
+      }
+    } else {
+      if (!req.user) {
+        throw new CustomError('Authentication required', 401, 'AUTH_REQUIRED');
+      }
+
+      await found.assertAccess(req.user);
+    }
+
+    await sendStoredFile(res, found.file);
+  })
+);
+
+export default router;
@@ -0,0 +1,134 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import {
+  authenticateUser,
+  requireStudent,
+  requireStudentOrAdmin,
+  requirePermission,
+  adminHasPermissions
+} from '../middleware/auth';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { PERMISSIONS } from '../config/permissions';
+import { renderInvoicePdf } from '../services/invoices';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Shape an invoice for API responses
+const formatInvoice = (invoice: any) => ({
+  id: invoice.id,
+  number: invoice.number,
+  enrollmentId: invoice.enrollmentId,
+  studentId: invoice.studentId,
+  studentName: invoice.studentName,
+  studentEmail: invoice.studentEmail,
+  courseTitle: invoice.courseTitle,
+  installmentSequence: invoice.installmentSequence,
+  listPrice: invoice.listPrice,
+  discountAmount: invoice.discountAmount,
+  amount: invoice.amount,
+  currency: invoice.currency,
+  transactionId: invoice.transactionId,
+  paymentReference: invoice.paymentReference,
+  paidAt: invoice.paidAt,
+  issuedAt: invoice.issuedAt
+});
+
+// Load an invoice the current user may see (its student, or an admin with MANAGE_PAYMENTS)
+const findAccessibleInvoice = async (id: string, user: { id: string; role: string }) => {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id }
+  });
+
+  if (!invoice) {
+    throw new CustomError('Invoice not found', 404, 'INVOICE_NOT_FOUND');
+  }
+
+  if (user.role === 'ADMIN') {
+    if (!(await adminHasPermissions(user.id, [PERMISSIONS.MANAGE_PAYMENTS]))) {
+      throw new CustomError('Invoice not found', 404, 'INVOICE_NOT_FOUND');
+    }
+  } else {
+    const student = await prisma.student.findUnique({
+      where: { userId: user.id }
+    });
+
+    if (!student || student.id !== invoice.studentId) {
+      throw new CustomError('Invoice not found', 404, 'INVOICE_NOT_FOUND');
+    }
+  }
+
+  return invoice;
+};
+
+// List the current student's invoices
+router.get('/',
+  authenticateUser,
+  requireStudent,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        payment: {
+          enrollment: {
+            student: { userId: req.user!.id }
+          }
+        }
+      },
+      orderBy: { issuedAt: 'desc' }
+    });
+
+    res.json({
+      invoices: invoices.map(formatInvoice)
+    });
+  })
+);
+
+// List a student's invoices (Admin only)
+router.get('/students/:studentId',
+  authenticateUser,
+  requirePermission(PERMISSIONS.MANAGE_PAYMENTS),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { studentId } = req.params;
+
+    const invoices = await prisma.invoice.findMany({
+      where: { studentId },
+      orderBy: { issuedAt: 'desc' }
+    });
+
+    res.json({
+      invoices: invoices.map(formatInvoice)
+    });
+  })
+);
+
+// Get an invoice
+router.get('/:id',
+  authenticateUser,
+  requireStudentOrAdmin,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const invoice = await findAccessibleInvoice(req.params.id, req.user!);
+
+    res.json({
+      invoice: formatInvoice(invoice)
+    });
+  })
+);
+
+// Download an invoice as PDF
+router.get('/:id/pdf',
+  authenticateUser,
+  requireStudentOrAdmin,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const invoice = await findAccessibleInvoice(req.params.id, req.user!);
+    const pdf = await renderInvoicePdf(invoice);
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${invoice.number}.pdf"`,
+      'Content-Length': String(pdf.length)
+    });
+    res.send(pdf);
+  })
+);
+
+export default router;
@@ -0,0 +1,315 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import {
+  authenticateUser,
+  requireStudent,
+  requireStudentOrAdmin,
+  adminHasPermissions
+} from '../middleware/auth';
+import {
+  validate,
+  checkoutValidation,
+  installmentPlanSelectionValidation
+} from '../middleware/validation';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { PERMISSIONS } from '../config/permissions';
+import { getPaymentProvider } from '../services/paymentProviders';
+import { initiateCheckout, processPaymentEvent } from '../services/payments';
+import { scheduleInstallments, findNextInstallment, OPEN_INSTALLMENT_STATUSES } from '../services/installments';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Shape a payment record for API responses
+const formatPayment = (payment: any) => ({
+  id: payment.id,
+  reference: payment.reference,
+  amount: payment.amount,
+  currency: payment.currency,
+  status: payment.status,
+  channel: payment.channel,
+  failureReason: payment.failureReason,
+  paidAt: payment.paidAt,
+  refundedAt: payment.refundedAt,
+  createdAt: payment.createdAt,
+  ...(payment.enrollment && {
+    enrollmentId: payment.enrollment.id,
+    course: {
+      id: payment.enrollment.course.id,
+      title: payment.enrollment.course.title
+    }
+  })
+});
+
+// Provider webhook; the body arrives raw (see index.ts) so the signature can be checked
+router.post('/webhook', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const provider = getPaymentProvider();
+  const rawBody: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.from('');
+
+  if (!provider.verifyWebhookSignature(rawBody, req.headers)) {
+    throw new CustomError('Invalid webhook signature', 401, 'INVALID_SIGNATURE');
+  }
+
+  let payload: any;
+  try {
+    payload = JSON.parse(rawBody.toString('utf8'));
+  } catch {
+    throw new CustomError('Invalid JSON format', 400, 'INVALID_JSON');
+  }
+
+  const event = provider.parseWebhookEvent(payload);
+
+  if (!event.id) {
+    throw new CustomError('Webhook event has no identifier', 400, 'INVALID_EVENT');
+  }
+
+  const { duplicate, outcome } = await processPaymentEvent(provider.name, event, payload);
+
+  // Always acknowledge verified events so the provider stops retrying
+  res.json({
+    received: true,
+    duplicate,
+    outcome
+  });
+}));
+
+// Start a checkout for one of the current student's enrollments
+router.post('/checkout',
+  authenticateUser,
+  requireStudent,
+  validate(checkoutValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { enrollmentId } = req.body;
+
+    const enrollment = await prisma.enrollment.findUnique({
+      where: { id: enrollmentId },
+      include: {
+        student: true,
+        course: true
+      }
+    });
+
+    if (!enrollment || enrollment.student.userId !== req.user!.id) {
+      throw new CustomError('Enrollment not found', 404, 'ENROLLMENT_NOT_FOUND');
+    }
+
+    if (enrollment.status === 'CANCELLED') {
+      throw new CustomError('This enrollment has been cancelled', 400, 'ENROLLMENT_CANCELLED');
+    }
+
+    if (enrollment.paymentStatus === 'COMPLETED') {
+      throw new CustomError('This enrollment has already been paid for', 400, 'ALREADY_PAID');
+    }
+
+    // Full scholarships and 100% coupons leave nothing to pay
+    if ((enrollment.effectivePrice ?? enrollment.course.price) <= 0) {
+      throw new CustomError('This course does not require payment', 400, 'PAYMENT_NOT_REQUIRED');
+    }
+
+    // Enrollments on an installment plan pay the earliest unpaid installment
+    const installment = enrollment.installmentPlanId
+      ? await findNextInstallment(enrollment.id)
+      : null;
+
+    if (enrollment.installmentPlanId && !installment) {
+      throw new CustomError('This enrollment has already been paid for', 400, 'ALREADY_PAID');
+    }
+
+    const { payment, resumed } = await initiateCheckout(enrollment, req.user!, installment ?? undefined);
+
+    res.status(resumed ? 200 : 201).json({
+      message: resumed ? 'Checkout already in progress' : 'Checkout started successfully',
+      payment: formatPayment(payment),
+      authorizationUrl: payment.authorizationUrl
+    });
+  })
+);
+
+// Choose an installment plan for an unpaid enrollment
+router.post('/installment-plan',
+  authenticateUser,
+  requireStudent,
+  validate(installmentPlanSelectionValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { enrollmentId, installmentPlanId } = req.body;
+
+    const enrollment = await prisma.enrollment.findUnique({
+      where: { id: enrollmentId },
+      include: {
+        student: true,
+        course: true
+      }
+    });
+
+    if (!enrollment || enrollment.student.userId !== req.user!.id) {
+      throw new CustomError('Enrollment not found', 404, 'ENROLLMENT_NOT_FOUND');
+    }
+
+    if (enrollment.installmentPlanId) {
+      throw new CustomError('An installment plan has already been chosen for this enrollment', 400, 'INSTALLMENT_PLAN_EXISTS');
+    }
+
+    if (enrollment.paymentStatus === 'COMPLETED') {
+      throw new CustomError('This enrollment has already been paid for', 400, 'ALREADY_PAID');
+    }
+
+    const plan = await prisma.installmentPlan.findFirst({
+      where: {
+        id: installmentPlanId,
+        courseId: enrollment.courseId,
+        isActive: true
+      }
+    });
+
+    if (!plan) {
+      throw new CustomError('Installment plan not found', 404, 'INSTALLMENT_PLAN_NOT_FOUND');
+    }
+
+    // Discounts apply proportionally to every installment
+    const discountFactor = enrollment.listPrice && enrollment.effectivePrice !== null
+      ? enrollment.effectivePrice / enrollment.listPrice
+      : 1;
+
+    if (discountFactor <= 0) {
+      throw new CustomError('This course does not require payment', 400, 'PAYMENT_NOT_REQUIRED');
+    }
+
+    // Plan amounts are in the course currency; convert at the rate fixed on the enrollment
+    // Fails while a full-price checkout is open, which could otherwise be paid alongside the plan
+    const installments = await prisma.$transaction(tx =>
+      scheduleInstallments(
+        tx,
+        enrollment.id,
+        plan,
+        enrollment.currency ?? enrollment.course.currency,
+        discountFactor * (enrollment.exchangeRate ?? 1)
+      )
+    );
+
+    res.status(201).json({
+      message: 'Installment plan selected successfully',
+      installments: installments.map(installment => ({
+        id: installment.id,
+        sequence: installment.sequence,
+        amount: installment.amount,
+        currency: installment.currency,
+        dueDate: installment.dueDate,
+        status: installment.status
+      }))
+    });
+  })
+);
+
+// List the current student's unpaid installments, soonest first
+router.get('/dues',
+  authenticateUser,
+  requireStudent,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const installments = await prisma.installment.findMany({
+      where: {
+        status: { in: OPEN_INSTALLMENT_STATUSES },
+        enrollment: {
+          student: { userId: req.user!.id },
+          status: { not: 'CANCELLED' }
+        }
+      },
+      include: {
+        enrollment: {
+          include: {
+            course: true,
+            installmentPlan: true
+          }
+        }
+      },
+      orderBy: { dueDate: 'asc' }
+    });
+
+    res.json({
+      dues: installments.map(installment => ({
+        id: installment.id,
+        sequence: installment.sequence,
+        amount: installment.amount,
+        currency: installment.currency,
+        dueDate: installment.dueDate,
+        status: installment.status,
+        enrollment: {
+          id: installment.enrollment.id,
+          status: installment.enrollment.status,
+          suspensionReason: installment.enrollment.suspensionReason
+        },
+        course: {
+          id: installment.enrollment.course.id,
+          title: installment.enrollment.course.title
+        },
+        plan: installment.enrollment.installmentPlan ? {
+          id: installment.enrollment.installmentPlan.id,
+          name: installment.enrollment.installmentPlan.name,
+          numberOfPayments: installment.enrollment.installmentPlan.amounts.length,
+          graceDays: installment.enrollment.installmentPlan.graceDays
+        } : null
+      }))
+    });
+  })
+);
+
+// List the current student's payments
+router.get('/',
+  authenticateUser,
+  requireStudent,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const payments = await prisma.payment.findMany({
+      where: {
+        enrollment: {
+          student: { userId: req.user!.id }
+        }
+      },
+      include: {
+        enrollment: {
+          include: {
+            course: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      payments: payments.map(formatPayment)
+    });
+  })
+);
+
+// Get a payment by reference (e.g. after the provider redirects back)
+router.get('/:reference',
+  authenticateUser,
+  requireStudentOrAdmin,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { reference } = req.params;
+
+    const payment = await prisma.payment.findUnique({
+      where: { reference },
+      include: {
+        enrollment: {
+          include: {
+            student: true,
+            course: true
+          }
+        }
+      }
+    });
+
+    // Students see their own payments; admins need MANAGE_PAYMENTS
+    const isAdmin = req.user!.role === 'ADMIN'
+      && await adminHasPermissions(req.user!.id, [PERMISSIONS.MANAGE_PAYMENTS]);
+
+    if (!payment || (!isAdmin && payment.enrollment.student.userId !== req.user!.id)) {
+      throw new CustomError('Payment not found', 404, 'PAYMENT_NOT_FOUND');
+    }
+
+    res.json({
+      payment: formatPayment(payment)
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,278 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import {
+  authenticateUser,
+  requireStudent
+} from '../middleware/auth';
+import {
+  validate,
+  progressUpdateValidation
+} from '../middleware/validation';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { calculateProgressPercent, countCourseLessons } from '../services/progress';
+import { requireEnrollment } from '../services/enrollments';
+import { assertLessonAccess, canAccessModule, getPreviewModuleId, hasPaidAccess } from '../services/courseAccess';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Get progress for all of the current student's courses
+router.get('/',
+  authenticateUser,
+  requireStudent,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
+
+    const student = await prisma.student.findUnique({
+      where: { userId },
+      include: {
+        progress: {
+          include: {
+            course: true
+          },
+          orderBy: {
+            lastAccessedAt: 'desc'
+          }
+        }
+      }
+    });
+
+    if (!student) {
+      throw new CustomError('Student profile not found', 404, 'STUDENT_NOT_FOUND');
+    }
+
+    res.json({
+      progress: student.progress.map(progress => ({
+        id: progress.id,
+        course: {
+          id: progress.course.id,
+          title: progress.course.title
+        },
+        completedLessons: progress.completedLessons,
+        totalLessons: progress.totalLessons,
+        progressPercent: Math.round(progress.progressPercent),
+        totalTimeSpent: progress.totalTimeSpent,
+        lastAccessedAt: progress.lastAccessedAt
+      }))
+    });
+  })
+);
+
+// Get detailed progress for one course
+router.get('/courses/:courseId',
+  authenticateUser,
+  requireStudent,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { courseId } = req.params;
+    const { student, enrollment } = await requireEnrollment(req.user!.id, courseId, ['ACTIVE', 'COMPLETED']);
+
+    const [progress, modules, course] = await Promise.all([
+      prisma.studentProgress.findUnique({
+        where: {
+          studentId_courseId: {
+            studentId: student.id,
+            courseId
+          }
+        },
+        include: {
+          lessonProgress: true
+        }
+      }),
+      prisma.courseModule.findMany({
+        where: { courseId },
+        orderBy: { orderIndex: 'asc' },
+        include: {
+          lessons: {
+            orderBy: { orderIndex: 'asc' }
+          }
+        }
+      }),
+      prisma.course.findUniqueOrThrow({
+        where: { id: courseId },
+        select: { id: true, accessType: true, price: true }
+      })
+    ]);
+
+    const [previewModuleId, paidAccess] = await Promise.all([
+      getPreviewModuleId(course),
+      hasPaidAccess(enrollment)
+    ]);
+
+    const lessonProgressById = new Map(
+      (progress?.lessonProgress ?? []).map(lp => [lp.lessonId, lp])
+    );
+
+    res.json({
+      enrollment: {
+        id: enrollment.id,
+        status: enrollment.status,
+        paymentStatus: enrollment.paymentStatus,
+        completedAt: enrollment.completedAt
+      },
+      progress: {
+        completedLessons: progress?.completedLessons ?? 0,
+        totalLessons: progress?.totalLessons ?? 0,
+        progressPercent: Math.round(progress?.progressPercent ?? 0),
+        totalTimeSpent: progress?.totalTimeSpent ?? 0,
+        lastAccessedAt: progress?.lastAccessedAt ?? null
+      },
+      modules: modules.map(module => ({
+        id: module.id,
+        title: module.title,
+        orderIndex: module.orderIndex,
+        // Locked modules need payment before their lessons can be opened
+        locked: !canAccessModule(course, paidAccess, module.id, previewModuleId),
+        lessons: module.lessons.map(lesson => {
+          const lessonProgress = lessonProgressById.get(lesson.id);
+
+          return {
+            id: lesson.id,
+            title: lesson.title,
+            orderIndex: lesson.orderIndex,
+            isCompleted: lessonProgress?.isCompleted ?? false,
+            completedAt: lessonProgress?.completedAt ?? null,
+            timeSpent: lessonProgress?.timeSpent ?? 0
+          };
+        })
+      }))
+    });
+  })
+);
+
+// Mark a lesson complete/incomplete and log time spent (in minutes)
+router.post('/lessons',
+  authenticateUser,
+  requireStudent,
+  validate(progressUpdateValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { lessonId, isCompleted, timeSpent } = req.body;
+
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: lessonId },
+      include: {
+        module: true
+      }
+    });
+
+    if (!lesson) {
+      throw new CustomError('Lesson not found', 404, 'LESSON_NOT_FOUND');
+    }
+
+    const courseId = lesson.module.courseId;
+    const { student, enrollment } = await requireEnrollment(req.user!.id, courseId);
+    await assertLessonAccess(courseId, enrollment, lesson.moduleId);
+
+    const result = await prisma.$transaction(async (tx) => {
+      const now = new Date();
+
+      const progress = await tx.studentProgress.upsert({
+        where: {
+          studentId_courseId: {
+            studentId: student.id,
+            courseId
+          }
+        },
+        update: {},
+        create: {
+          studentId: student.id,
+          courseId
+        }
+      });
+
+      const existing = await tx.lessonProgress.findUnique({
+        where: {
+          progressId_lessonId: {
+            progressId: progress.id,
+            lessonId
+          }
+        }
+      });
+
+      // Keep the original completion time when a lesson is re-submitted as complete
+      const completedAt = isCompleted ? (existing?.completedAt ?? now) : null;
+
+      const lessonProgress = await tx.lessonProgress.upsert({
+        where: {
+          progressId_lessonId: {
+            progressId: progress.id,
+            lessonId
+          }
+        },
+        update: {
+          isCompleted,
+          completedAt,
+          timeSpent: { increment: timeSpent }
+        },
+        create: {
+          progressId: progress.id,
+          lessonId,
+          isCompleted,
+          completedAt,
+          timeSpent
+        }
+      });
+
+      const [completedLessons, totalLessons] = await Promise.all([
+        tx.lessonProgress.count({
+          where: {
+            progressId: progress.id,
+            isCompleted: true
+          }
+        }),
+        countCourseLessons(tx, courseId)
+      ]);
+
+      const updatedProgress = await tx.studentProgress.update({
+        where: { id: progress.id },
+        data: {
+          completedLessons,
+          totalLessons,
+          progressPercent: calculateProgressPercent(completedLessons, totalLessons),
+          totalTimeSpent: { increment: timeSpent },
+          lastAccessedAt: now
+        }
+      });
+
+      // Finishing every lesson completes the enrollment
+      const courseCompleted = totalLessons > 0 && completedLessons >= totalLessons;
+      const updatedEnrollment = courseCompleted
+        ? await tx.enrollment.update({
+            where: { id: enrollment.id },
+            data: {
+              status: 'COMPLETED',
+              completedAt: now
+            }
+          })
+        : enrollment;
+
+      return { lessonProgress, progress: updatedProgress, enrollment: updatedEnrollment, courseCompleted };
+    });
+
+    res.json({
+      message: result.courseCompleted
+        ? 'Congratulations! You have completed this course'
+        : 'Progress updated successfully',
+      lessonProgress: {
+        lessonId: result.lessonProgress.lessonId,
+        isCompleted: result.lessonProgress.isCompleted,
+        completedAt: result.lessonProgress.completedAt,
+        timeSpent: result.lessonProgress.timeSpent
+      },
+      progress: {
+        courseId,
+        completedLessons: result.progress.completedLessons,
+        totalLessons: result.progress.totalLessons,
+        progressPercent: Math.round(result.progress.progressPercent),
+        totalTimeSpent: result.progress.totalTimeSpent,
+        lastAccessedAt: result.progress.lastAccessedAt
+      },
+      enrollment: {
+        id: result.enrollment.id,
+        status: result.enrollment.status,
+        completedAt: result.enrollment.completedAt
+      }
+    });
+  })
+);
+
+export default router;
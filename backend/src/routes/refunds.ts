@@ -0,0 +1,77 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { authenticateUser, requireStudent } from '../middleware/auth';
+import { validate, refundRequestValidation } from '../middleware/validation';
+import { asyncHandler } from '../middleware/errorHandler';
+import { requestRefund } from '../services/refunds';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Shape a refund request for student responses (admin notes included, internal ids left out)
+const formatRefundRequest = (refund: any) => ({
+  id: refund.id,
+  enrollmentId: refund.enrollmentId,
+  reason: refund.reason,
+  status: refund.status,
+  eligibility: refund.eligibility,
+  policyNote: refund.policyNote,
+  progressPercent: Math.round(refund.progressPercent),
+  daysSincePayment: refund.daysSincePayment,
+  amountPaid: refund.amountPaid,
+  recommendedAmount: refund.recommendedAmount,
+  approvedAmount: refund.approvedAmount,
+  currency: refund.currency,
+  reviewNote: refund.reviewNote,
+  reviewedAt: refund.reviewedAt,
+  processedAt: refund.processedAt,
+  createdAt: refund.createdAt,
+  ...(refund.enrollment?.course && {
+    course: {
+      id: refund.enrollment.course.id,
+      title: refund.enrollment.course.title
+    }
+  })
+});
+
+// Request a refund for one of the current student's enrollments
+router.post('/',
+  authenticateUser,
+  requireStudent,
+  validate(refundRequestValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { enrollmentId, reason } = req.body;
+
+    const refundRequest = await requestRefund(req.user!.id, enrollmentId, reason);
+
+    res.status(201).json({
+      message: 'Refund requested successfully. An administrator will review your request.',
+      refundRequest: formatRefundRequest(refundRequest)
+    });
+  })
+);
+
+// List the current student's refund requests
+router.get('/',
+  authenticateUser,
+  requireStudent,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const refundRequests = await prisma.refundRequest.findMany({
+      where: { requestedBy: req.user!.id },
+      include: {
+        enrollment: {
+          include: {
+            course: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      refundRequests: refundRequests.map(formatRefundRequest)
+    });
+  })
+);
+
+export default router;
@@ -1,25 +1,54 @@
 import express from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, RegistrationStatus } from '@prisma/client';
 import { 
   authenticateUser, 
-  requireAdmin,
-  requireStudentOrAdmin 
+  optionalAuth,
+  requirePermission,
+  requireStudentOrAdmin,
+  adminHasPermissions
 } from '../middleware/auth';
 import { 
   validate, 
   studentRegistrationValidation,
   registrationActionValidation,
+  registrationBulkActionValidation,
+  MAX_BULK_REGISTRATIONS,
+  registrationResponseValidation,
+  registrationWithdrawalValidation,
   validateQuery,
   paginationValidation,
-  searchValidation
+  searchValidation,
+  registrationQueryValidation,
+  documentUploadValidation
 } from '../middleware/validation';
+import { documentUpload } from '../middleware/upload';
 import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { PERMISSIONS } from '../config/permissions';
+import { issueUserToken, buildTokenUrl } from '../services/tokens';
+import { sendVerificationEmail } from '../services/emailVerification';
+import { quotePrice, releaseCoupon } from '../services/pricing';
+import {
+  issueUploadToken,
+  hasValidUploadToken,
+  storeRegistrationDocument,
+  deleteRegistrationDocument
+} from '../services/documents';
+import { buildFileUrl } from '../services/files';
+import { OPEN_REGISTRATION_STATUSES, transitionRegistration } from '../services/registrationStatus';
+import {
+  ACTIVATION_TOKEN_TTL_MS,
+  approveRegistration,
+  rejectRegistration,
+  acceptWaitlistOffer,
+  sendActivationEmail,
+  promoteWaitlist
+} from '../services/admissions';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
 // Helper function to generate WhatsApp message
-const generateWhatsAppMessage = (type: 'registration' | 'approval' | 'rejection', data: any) => {
+const generateWhatsAppMessage = (type: 'registration' | 'approval' | 'rejection' | 'info_request' | 'waitlist', data: any) => {
   const whatsappPhone = process.env.WHATSAPP_PHONE || '05741768196';
   let message = '';
 
@@ -38,6 +67,9 @@ const generateWhatsAppMessage = (type: 'registration' | 'approval' | 'rejection'
       message = `🎉 *Registration Approved*\n\n` +
                 `Dear ${data.firstName},\n\n` +
                 `Your registration for *${data.courseName}* has been approved!\n\n` +
+                (data.activationSent
+                  ? `We have emailed you a link to set your password and activate your account.\n\n`
+                  : '') +
                 `Welcome to Eck School of Business. You will receive further instructions via email.`;
       break;
       
@@ -48,11 +80,57 @@ const generateWhatsAppMessage = (type: 'registration' | 'approval' | 'rejection'
                 `*Reason:* ${data.reason}\n\n` +
                 `Please contact us for more information.`;
       break;
+
+    case 'info_request':
+      message = `📄 *More Information Needed*\n\n` +
+                `Dear ${data.firstName},\n\n` +
+                `We need more information to review your registration for *${data.courseName}*.\n\n` +
+                `*Details:* ${data.reason}\n\n` +
+                `Please upload the requested documents here: ${data.uploadUrl}`;
+      break;
+
+    case 'waitlist':
+      message = `⏳ *Registration Waitlisted*\n\n` +
+                `Dear ${data.firstName},\n\n` +
+                `Your registration for *${data.courseName}* has been placed on the waiting list. ` +
+                `We will contact you as soon as a place becomes available.`;
+      break;
   }
 
   return `https://wa.me/${whatsappPhone}?text=${encodeURIComponent(message)}`;
 };
 
+// Price snapshot of a registration (legacy registrations have none)
+const formatPricing = (registration: any) => ({
+  listPrice: registration.listPrice ?? registration.course.price,
+  discountAmount: registration.discountAmount,
+  effectivePrice: registration.effectivePrice ?? registration.course.price,
+  currency: registration.currency ?? registration.course.currency,
+  exchangeRate: registration.exchangeRate ?? 1,
+  couponCode: registration.coupon?.code ?? null,
+  hasScholarship: registration.scholarshipId !== null
+});
+
+// Document metadata for API responses; the file itself is fetched from `url`
+const formatDocument = (document: any) => ({
+  id: document.id,
+  type: document.type,
+  originalName: document.originalName,
+  mimeType: document.mimeType,
+  size: document.size,
+  createdAt: document.createdAt,
+  url: buildFileUrl('registration-documents', document.id)
+});
+
+// Entry of a registration's status history
+const formatStatusChange = (change: any) => ({
+  fromStatus: change.fromStatus,
+  toStatus: change.toStatus,
+  changedBy: change.changedBy,
+  reason: change.reason,
+  createdAt: change.createdAt
+});
+
 // Create new student registration
 router.post('/', 
   validate(studentRegistrationValidation), 
@@ -76,7 +154,9 @@ router.post('/',
       previousEducation,
       workExperience,
       courseId,
-      message
+      message,
+      couponCode,
+      currency
     } = req.body;
 
     // Check if course exists
@@ -130,7 +210,7 @@ router.post('/',
       const user = await prisma.user.create({
         data: {
           email: email.toLowerCase(),
-          password: 'temp_password_will_be_set_on_approval',
+          // No password until the student activates the account after approval
           firstName,
           lastName,
           phone,
@@ -161,12 +241,12 @@ router.post('/',
       studentId = user.student!.id;
     }
 
-    // Check if registration already exists
+    // Check if registration already exists (withdrawn or rejected applicants may apply again)
     const existingRegistration = await prisma.registration.findFirst({
       where: {
         studentId,
         courseId,
-        status: { in: ['PENDING', 'APPROVED'] }
+        status: { in: [...OPEN_REGISTRATION_STATUSES, 'APPROVED'] }
       }
     });
 
@@ -178,24 +258,50 @@ router.post('/',
       );
     }
 
-    // Create registration
-    const registration = await prisma.registration.create({
-      data: {
-        studentId,
-        courseId,
-        message,
-        status: 'PENDING'
-      },
-      include: {
-        student: {
-          include: {
-            user: true
-          }
+    // Create registration with the price fixed at submission, so later price changes don't rewrite it
+    const registration = await prisma.$transaction(async (tx) => {
+      const quote = await quotePrice(tx, { studentId, course, couponCode, currency });
+
+      const created = await tx.registration.create({
+        data: {
+          studentId,
+          courseId,
+          message,
+          status: 'PENDING',
+          currency: quote.currency,
+          exchangeRate: quote.exchangeRate,
+          reportingRate: quote.reportingRate,
+          listPrice: quote.listPrice,
+          discountAmount: quote.discountAmount,
+          effectivePrice: quote.effectivePrice,
+          couponId: quote.coupon?.id ?? null,
+          couponDiscount: quote.couponDiscount,
+          scholarshipId: quote.scholarship?.id ?? null
         },
-        course: true
-      }
+        include: {
+          student: {
+            include: {
+              user: true
+            }
+          },
+          course: true,
+          coupon: true
+        }
+      });
+
+      // Applicants may not have a password yet, so documents are attached with this token
+      const documentUpload = await issueUploadToken(tx, created.id);
+
+      return { ...created, documentUpload };
     });
 
+    // Unverified addresses get a verification link before the registration is reviewed
+    const emailVerificationRequired = !registration.student.user.emailVerified;
+
+    if (emailVerificationRequired) {
+      await sendVerificationEmail(registration.student.user);
+    }
+
     // Generate WhatsApp URL for admin notification
     const whatsappUrl = generateWhatsAppMessage('registration', {
       firstName: registration.student.user.firstName,
@@ -216,6 +322,7 @@ router.post('/',
           price: registration.course.price,
           currency: registration.course.currency
         },
+        pricing: formatPricing(registration),
         student: {
           name: `${registration.student.user.firstName} ${registration.student.user.lastName}`,
           email: registration.student.user.email
@@ -223,7 +330,11 @@ router.post('/',
         createdAt: registration.createdAt
       },
       whatsappUrl,
+      emailVerificationRequired,
+      // Send as the X-Upload-Token header to POST /api/registrations/:id/documents
+      documentUpload: registration.documentUpload,
       nextSteps: [
+        ...(emailVerificationRequired ? ['Check your inbox and verify your email address'] : []),
         'Your registration has been submitted for review',
         'You will be notified via email and WhatsApp once approved',
         'Please keep your contact information updated'
@@ -232,42 +343,90 @@ router.post('/',
   })
 );
 
+// Where clause for the registration list filters (also used to pick registrations for bulk actions)
+const buildRegistrationWhere = (filters: {
+  q?: string;
+  status?: RegistrationStatus;
+  courseId?: string;
+  category?: string;
+  startDate?: Date;
+  endDate?: Date;
+  includeUnverified?: boolean;
+}) => {
+  const where: any = {};
+
+  if (filters.status) {
+    where.status = filters.status;
+  }
+
+  if (filters.courseId) {
+    where.courseId = filters.courseId;
+  }
+
+  if (filters.category) {
+    where.course = { category: filters.category };
+  }
+
+  if (filters.startDate || filters.endDate) {
+    where.createdAt = {
+      ...(filters.startDate && { gte: filters.startDate }),
+      ...(filters.endDate && { lte: filters.endDate })
+    };
+  }
+
+  // Registrations with unverified emails are hidden unless asked for
+  if (!filters.includeUnverified) {
+    where.student = {
+      user: { emailVerified: true }
+    };
+  }
+
+  if (filters.q) {
+    where.OR = [
+      {
+        student: {
+          user: {
+            OR: [
+              { firstName: { contains: filters.q, mode: 'insensitive' } },
+              { lastName: { contains: filters.q, mode: 'insensitive' } },
+              { email: { contains: filters.q, mode: 'insensitive' } }
+            ]
+          }
+        }
+      },
+      {
+        course: {
+          title: { contains: filters.q, mode: 'insensitive' }
+        }
+      }
+    ];
+  }
+
+  return where;
+};
+
 // Get all registrations (Admin only)
 router.get('/', 
   authenticateUser,
-  requireAdmin,
-  validateQuery(paginationValidation.concat(searchValidation)),
+  requirePermission(PERMISSIONS.MANAGE_REGISTRATIONS),
+  validateQuery(paginationValidation.concat(searchValidation).concat(registrationQueryValidation)),
   asyncHandler(async (req: express.Request, res: express.Response) => {
-    const { page = 1, limit = 10, sortBy = 'createdAt', sortOrder = 'desc', q, status } = req.query as any;
+    const {
+      page = 1,
+      limit = 10,
+      sortBy = 'createdAt',
+      sortOrder = 'desc',
+      q,
+      status,
+      courseId,
+      category,
+      startDate,
+      endDate,
+      includeUnverified
+    } = req.query as any;
     const offset = (page - 1) * limit;
 
-    // Build where clause
-    const where: any = {};
-    
-    if (status) {
-      where.status = status;
-    }
-
-    if (q) {
-      where.OR = [
-        {
-          student: {
-            user: {
-              OR: [
-                { firstName: { contains: q, mode: 'insensitive' } },
-                { lastName: { contains: q, mode: 'insensitive' } },
-                { email: { contains: q, mode: 'insensitive' } }
-              ]
-            }
-          }
-        },
-        {
-          course: {
-            title: { contains: q, mode: 'insensitive' }
-          }
-        }
-      ];
-    }
+    const where = buildRegistrationWhere({ q, status, courseId, category, startDate, endDate, includeUnverified });
 
     const [registrations, total] = await Promise.all([
       prisma.registration.findMany({
@@ -278,7 +437,8 @@ router.get('/',
               user: true
             }
           },
-          course: true
+          course: true,
+          coupon: true
         },
         orderBy: { [sortBy]: sortOrder },
         skip: offset,
@@ -299,6 +459,7 @@ router.get('/',
           id: reg.student.id,
           name: `${reg.student.user.firstName} ${reg.student.user.lastName}`,
           email: reg.student.user.email,
+          emailVerified: reg.student.user.emailVerified,
           phone: reg.student.user.phone,
           address: `${reg.student.city || ''}, ${reg.student.state || ''}`.trim().replace(/^,\s*/, ''),
           previousEducation: reg.student.previousEducation
@@ -309,7 +470,8 @@ router.get('/',
           category: reg.course.category,
           price: reg.course.price,
           currency: reg.course.currency
-        }
+        },
+        pricing: formatPricing(reg)
       })),
       pagination: {
         page,
@@ -344,6 +506,13 @@ router.get('/:id',
               }
             }
           }
+        },
+        coupon: true,
+        documents: {
+          orderBy: { createdAt: 'asc' }
+        },
+        statusChanges: {
+          orderBy: { createdAt: 'asc' }
         }
       }
     });
@@ -352,14 +521,26 @@ router.get('/:id',
       throw new CustomError('Registration not found', 404, 'REGISTRATION_NOT_FOUND');
     }
 
-    // Check if user can access this registration
-    const isAdmin = req.user!.role === 'ADMIN';
+    // Applicants see their own registration; admins need MANAGE_REGISTRATIONS
     const isOwner = registration.student.userId === req.user!.id;
+    const isAdmin = req.user!.role === 'ADMIN'
+      && await adminHasPermissions(req.user!.id, [PERMISSIONS.MANAGE_REGISTRATIONS]);
 
     if (!isAdmin && !isOwner) {
       throw new CustomError('Access denied', 403, 'ACCESS_DENIED');
     }
 
+    // Place in the queue, counting from 1
+    const waitlistPosition = registration.status === 'WAITLISTED' && registration.waitlistedAt
+      ? await prisma.registration.count({
+        where: {
+          courseId: registration.courseId,
+          status: 'WAITLISTED',
+          waitlistedAt: { lt: registration.waitlistedAt }
+        }
+      }) + 1
+      : null;
+
     res.json({
       registration: {
         id: registration.id,
@@ -372,6 +553,7 @@ router.get('/:id',
           id: registration.student.id,
           name: `${registration.student.user.firstName} ${registration.student.user.lastName}`,
           email: registration.student.user.email,
+          emailVerified: registration.student.user.emailVerified,
           phone: registration.student.user.phone,
           dateOfBirth: registration.student.dateOfBirth,
           gender: registration.student.gender,
@@ -400,20 +582,241 @@ router.get('/:id',
           prerequisites: registration.course.prerequisites,
           totalModules: registration.course.modules.length,
           totalLessons: registration.course.modules.reduce((acc, module) => acc + module.lessons.length, 0)
-        }
+        },
+        pricing: formatPricing(registration),
+        documents: registration.documents.map(formatDocument),
+        history: registration.statusChanges.map(formatStatusChange),
+        ...(waitlistPosition !== null && {
+          waitlist: {
+            position: waitlistPosition,
+            waitlistedAt: registration.waitlistedAt,
+            offerExpiresAt: registration.offerExpiresAt
+          }
+        })
+      }
+    });
+  })
+);
+
+// Load a registration on behalf of its applicant: its student when logged in,
+// or anyone holding the upload token issued at submission (applicants may not have a password yet)
+const findApplicantRegistration = async (req: express.Request, registrationId: string) => {
+  const registration = await prisma.registration.findUnique({
+    where: { id: registrationId },
+    include: {
+      student: true
+    }
+  });
+
+  if (!registration) {
+    throw new CustomError('Registration not found', 404, 'REGISTRATION_NOT_FOUND');
+  }
+
+  const isOwner = !!req.user && registration.student.userId === req.user.id;
+
+  if (!isOwner && !hasValidUploadToken(registration, req.get('X-Upload-Token'))) {
+    throw new CustomError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  return registration;
+};
+
+// Documents can be changed until review starts, and again when more information is requested
+const DOCUMENT_EDITABLE_STATUSES: RegistrationStatus[] = ['PENDING', 'NEEDS_INFO'];
+
+const findUploadableRegistration = async (req: express.Request, registrationId: string) => {
+  const registration = await findApplicantRegistration(req, registrationId);
+
+  if (!DOCUMENT_EDITABLE_STATUSES.includes(registration.status)) {
+    throw new CustomError(
+      'Documents can only be changed while a registration is pending or needs more information',
+      400,
+      'REGISTRATION_NOT_PENDING'
+    );
+  }
+
+  return registration;
+};
+
+// Attach a document (transcript, ID card, passport photo...) to a pending registration
+router.post('/:id/documents',
+  optionalAuth,
+  documentUpload,
+  validate(documentUploadValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    const registration = await findUploadableRegistration(req, id);
+
+    if (!req.file) {
+      throw new CustomError('Please attach a file', 400, 'FILE_REQUIRED');
+    }
+
+    const document = await storeRegistrationDocument(registration.id, req.file, req.body.type, req.user?.id ?? null);
+
+    res.status(201).json({
+      message: 'Document uploaded successfully',
+      document: formatDocument(document)
+    });
+  })
+);
+
+// Remove a document from a pending registration
+router.delete('/:id/documents/:documentId',
+  optionalAuth,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id, documentId } = req.params;
+
+    const registration = await findUploadableRegistration(req, id);
+
+    const document = await prisma.registrationDocument.findFirst({
+      where: { id: documentId, registrationId: registration.id }
+    });
+
+    if (!document) {
+      throw new CustomError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+    }
+
+    await deleteRegistrationDocument(document);
+
+    res.json({
+      message: 'Document removed successfully'
+    });
+  })
+);
+
+// Answer a request for more information and send the registration back for review
+router.post('/:id/respond',
+  optionalAuth,
+  validate(registrationResponseValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const { message } = req.body;
+
+    const registration = await findApplicantRegistration(req, id);
+
+    if (registration.status !== 'NEEDS_INFO') {
+      throw new CustomError('No information has been requested for this registration', 400, 'REGISTRATION_NOT_NEEDS_INFO');
+    }
+
+    // The requested documents must be uploaded after the request was made
+    const infoRequest = await prisma.registrationStatusChange.findFirst({
+      where: { registrationId: registration.id, toStatus: 'NEEDS_INFO' },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const newDocuments = await prisma.registrationDocument.count({
+      where: {
+        registrationId: registration.id,
+        createdAt: { gt: infoRequest?.createdAt ?? registration.updatedAt }
+      }
+    });
+
+    if (newDocuments === 0) {
+      throw new CustomError('Please upload the requested documents before responding', 400, 'DOCUMENTS_REQUIRED');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await transitionRegistration(tx, registration, 'UNDER_REVIEW', {
+        changedBy: registration.student.userId,
+        reason: message ?? null
+      });
+    });
+
+    res.json({
+      message: 'Response submitted successfully',
+      registration: {
+        id: registration.id,
+        status: 'UNDER_REVIEW'
+      }
+    });
+  })
+);
+
+// Withdraw a registration that has not been decided yet
+router.post('/:id/withdraw',
+  optionalAuth,
+  validate(registrationWithdrawalValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    const registration = await findApplicantRegistration(req, id);
+
+    await prisma.$transaction(async (tx) => {
+      await transitionRegistration(tx, registration, 'WITHDRAWN', {
+        changedBy: registration.student.userId,
+        reason: reason ?? null
+      });
+
+      // A withdrawn registration gives back any coupon use it holds
+      await releaseCoupon(tx, registration.id);
+    });
+
+    // A seat held for this applicant goes to the next in line
+    if (registration.offerExpiresAt) {
+      await promoteWaitlist(registration.courseId);
+    }
+
+    res.json({
+      message: 'Registration withdrawn successfully',
+      registration: {
+        id: registration.id,
+        status: 'WITHDRAWN'
       }
     });
   })
 );
 
-// Approve or reject registration (Admin only)
+// Accept a place offered from the waiting list
+router.post('/:id/accept-offer',
+  optionalAuth,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    const registration = await findApplicantRegistration(req, id);
+
+    const approval = await acceptWaitlistOffer(registration, registration.student.userId);
+    const activationSent = approval.status === 'APPROVED' && approval.activation !== null;
+
+    res.json({
+      message: 'Your place has been confirmed',
+      registration: {
+        id: registration.id,
+        status: approval.status
+      },
+      nextSteps: [
+        'Your enrollment has been created',
+        activationSent
+          ? 'An activation link has been emailed to you to set your password'
+          : 'Sign in to start the course'
+      ]
+    });
+  })
+);
+
+// Status each review action moves a registration to, and the notice sent to the applicant
+const REVIEW_ACTIONS: Record<string, {
+  status: RegistrationStatus;
+  message: string;
+  notice: 'approval' | 'rejection' | 'info_request' | 'waitlist' | null;
+}> = {
+  review: { status: 'UNDER_REVIEW', message: 'Registration is now under review', notice: null },
+  'request-info': { status: 'NEEDS_INFO', message: 'More information requested from the applicant', notice: 'info_request' },
+  waitlist: { status: 'WAITLISTED', message: 'Registration waitlisted successfully', notice: 'waitlist' },
+  approve: { status: 'APPROVED', message: 'Registration approved successfully', notice: 'approval' },
+  reject: { status: 'REJECTED', message: 'Registration rejected successfully', notice: 'rejection' }
+};
+
+// Review a registration: start review, ask for more information, waitlist, approve or reject (Admin only)
 router.patch('/:id/action',
   authenticateUser,
-  requireAdmin,
+  requirePermission(PERMISSIONS.MANAGE_REGISTRATIONS),
   validate(registrationActionValidation),
   asyncHandler(async (req: express.Request, res: express.Response) => {
     const { id } = req.params;
     const { action, message } = req.body;
+    const reviewAction = REVIEW_ACTIONS[action]!;
 
     const registration = await prisma.registration.findUnique({
       where: { id },
@@ -431,24 +834,125 @@ router.patch('/:id/action',
       throw new CustomError('Registration not found', 404, 'REGISTRATION_NOT_FOUND');
     }
 
-    if (registration.status !== 'PENDING') {
-      throw new CustomError('Registration has already been processed', 400, 'REGISTRATION_PROCESSED');
+    const reviewedAt = new Date();
+    const rejectionReason = action === 'reject' ? message : registration.rejectionReason;
+
+    const { status, activation, documentUpload } = await prisma.$transaction(async (tx) => {
+      const options = {
+        changedBy: req.user!.id,
+        reason: message ?? null,
+        data: {
+          reviewedBy: req.user!.id,
+          reviewedAt,
+          rejectionReason
+        }
+      };
+
+      // Approval creates the enrollment, or waitlists the registration when the course is full
+      if (action === 'approve') {
+        const approval = await approveRegistration(tx, id, options);
+
+        return {
+          status: approval.status,
+          activation: approval.status === 'APPROVED' ? approval.activation : null,
+          documentUpload: null
+        };
+      }
+
+      if (action === 'reject') {
+        await rejectRegistration(tx, registration, options);
+        return { status: reviewAction.status, activation: null, documentUpload: null };
+      }
+
+      await transitionRegistration(tx, registration, reviewAction.status, options);
+
+      // The token issued at submission has probably expired, so the applicant gets a new one
+      const documentUpload = action === 'request-info' ? await issueUploadToken(tx, id) : null;
+
+      return { status: reviewAction.status, activation: null, documentUpload };
+    });
+
+    // A seat held for this applicant goes to the next in line
+    if (registration.offerExpiresAt && status !== 'APPROVED') {
+      await promoteWaitlist(registration.courseId);
     }
 
-    const updateData: any = {
-      status: action === 'approve' ? 'APPROVED' : 'REJECTED',
-      reviewedBy: req.user!.id,
-      reviewedAt: new Date()
-    };
+    const waitlisted = action === 'approve' && status === 'WAITLISTED';
+    const notice = waitlisted ? 'waitlist' : reviewAction.notice;
 
-    if (action === 'reject' && message) {
-      updateData.rejectionReason = message;
+    // The activation link goes to the student only, never to the reviewing admin
+    if (activation) {
+      sendActivationEmail(registration.student.user, activation);
     }
 
-    // Update registration
-    const updatedRegistration = await prisma.registration.update({
-      where: { id },
-      data: updateData,
+    const uploadUrl = documentUpload ? buildTokenUrl(`/registrations/${id}/documents`, documentUpload.token) : null;
+
+    // Generate WhatsApp URL for student notification
+    const whatsappUrl = notice && generateWhatsAppMessage(notice, {
+      firstName: registration.student.user.firstName,
+      courseName: registration.course.title,
+      reason: message || 'No additional details provided',
+      activationSent: activation !== null,
+      uploadUrl
+    });
+
+    res.json({
+      message: waitlisted ? 'The course is full, so the registration has been waitlisted' : reviewAction.message,
+      registration: {
+        id: registration.id,
+        status,
+        reviewedAt,
+        rejectionReason
+      },
+      whatsappUrl,
+      ...(activation && {
+        activationSent: true,
+        activationExpiresAt: activation.expiresAt
+      }),
+      // Send as the X-Upload-Token header to POST /api/registrations/:id/documents
+      ...(documentUpload && {
+        documentUpload,
+        uploadUrl
+      }),
+      ...(status === 'APPROVED' && {
+        nextSteps: [
+          'Student enrollment has been created',
+          activation
+            ? 'An activation link has been emailed to the student to set their password'
+            : 'Student account has been activated',
+          'Initial progress tracking has been set up'
+        ]
+      })
+    });
+  })
+);
+
+// Approve or reject many registrations with a shared message (Admin only).
+// Each registration is processed on its own, so one failure does not stop the batch.
+router.post('/bulk-action',
+  authenticateUser,
+  requirePermission(PERMISSIONS.MANAGE_REGISTRATIONS),
+  validate(registrationBulkActionValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { action, message, ids, filter } = req.body;
+
+    const where = ids ? { id: { in: ids } } : buildRegistrationWhere(filter);
+
+    if (!ids) {
+      const matched = await prisma.registration.count({ where });
+
+      if (matched > MAX_BULK_REGISTRATIONS) {
+        throw new CustomError(
+          `The filter matches ${matched} registrations; narrow it down to at most ${MAX_BULK_REGISTRATIONS}`,
+          400,
+          'TOO_MANY_REGISTRATIONS'
+        );
+      }
+    }
+
+    // Oldest first, so earlier applicants get the remaining seats of a course before it fills up
+    const registrations = await prisma.registration.findMany({
+      where,
       include: {
         student: {
           include: {
@@ -456,73 +960,165 @@ router.patch('/:id/action',
           }
         },
         course: true
-      }
+      },
+      orderBy: { createdAt: 'asc' }
     });
 
-    // If approved, create enrollment and activate user
-    if (action === 'approve') {
-      // Activate user if inactive
-      if (updatedRegistration.student.user.status === 'INACTIVE') {
-        await prisma.user.update({
-          where: { id: updatedRegistration.student.user.id },
-          data: { status: 'ACTIVE' }
-        });
-      }
+    const reviewedAt = new Date();
+    const freedSeatCourses = new Set<string>();
+    const results: any[] = [];
 
-      // Create enrollment
-      await prisma.enrollment.create({
+    for (const registration of registrations) {
+      const options = {
+        changedBy: req.user!.id,
+        reason: message ?? null,
         data: {
-          studentId: updatedRegistration.student.id,
-          courseId: updatedRegistration.course.id,
-          status: 'ACTIVE',
-          paymentStatus: 'PENDING'
+          reviewedBy: req.user!.id,
+          reviewedAt,
+          rejectionReason: action === 'reject' ? message : registration.rejectionReason
         }
-      });
+      };
 
-      // Create initial progress record
-      const totalLessons = await prisma.lesson.count({
-        where: {
-          module: {
-            courseId: updatedRegistration.course.id
+      try {
+        const approval = await prisma.$transaction(async (tx) => {
+          if (action === 'approve') {
+            return approveRegistration(tx, registration.id, options);
           }
+
+          await rejectRegistration(tx, registration, options);
+          return null;
+        });
+
+        const status = approval?.status ?? 'REJECTED';
+        const activation = approval?.status === 'APPROVED' ? approval.activation : null;
+
+        if (activation) {
+          sendActivationEmail(registration.student.user, activation);
         }
-      });
 
-      await prisma.studentProgress.create({
-        data: {
-          studentId: updatedRegistration.student.id,
-          courseId: updatedRegistration.course.id,
-          totalLessons
+        // A seat held for this applicant goes to the next in line
+        if (registration.offerExpiresAt && status !== 'APPROVED') {
+          freedSeatCourses.add(registration.courseId);
         }
-      });
+
+        results.push({
+          id: registration.id,
+          success: true,
+          status,
+          whatsappUrl: generateWhatsAppMessage(
+            status === 'APPROVED' ? 'approval' : status === 'WAITLISTED' ? 'waitlist' : 'rejection',
+            {
+              firstName: registration.student.user.firstName,
+              courseName: registration.course.title,
+              reason: message || 'No additional details provided',
+              activationSent: activation !== null
+            }
+          ),
+          ...(activation && {
+            activationSent: true,
+            activationExpiresAt: activation.expiresAt
+          })
+        });
+      } catch (error) {
+        if (!(error instanceof CustomError)) {
+          console.error(`Bulk ${action} failed for registration ${registration.id}:`, error);
+        }
+
+        results.push({
+          id: registration.id,
+          success: false,
+          error: error instanceof CustomError
+            ? { code: error.code, message: error.message }
+            : { code: 'INTERNAL_ERROR', message: 'The registration could not be processed' }
+        });
+      }
     }
 
-    // Generate WhatsApp URL for student notification
-    const whatsappUrl = generateWhatsAppMessage(
-      action === 'approve' ? 'approval' : 'rejection',
-      {
-        firstName: updatedRegistration.student.user.firstName,
-        courseName: updatedRegistration.course.title,
-        reason: message || 'No additional details provided'
+    // Requested IDs that do not exist are reported like any other failure
+    if (ids) {
+      const found = new Set(registrations.map(registration => registration.id));
+
+      for (const id of ids as string[]) {
+        if (!found.has(id)) {
+          results.push({
+            id,
+            success: false,
+            error: { code: 'REGISTRATION_NOT_FOUND', message: 'Registration not found' }
+          });
+        }
       }
-    );
+    }
+
+    for (const courseId of freedSeatCourses) {
+      await promoteWaitlist(courseId);
+    }
+
+    const succeeded = results.filter(result => result.success);
 
     res.json({
-      message: `Registration ${action}d successfully`,
-      registration: {
-        id: updatedRegistration.id,
-        status: updatedRegistration.status,
-        reviewedAt: updatedRegistration.reviewedAt,
-        rejectionReason: updatedRegistration.rejectionReason
+      message: `${succeeded.length} of ${results.length} registrations processed`,
+      summary: {
+        total: results.length,
+        succeeded: succeeded.length,
+        failed: results.length - succeeded.length,
+        waitlisted: succeeded.filter(result => result.status === 'WAITLISTED').length
       },
-      whatsappUrl,
-      ...(action === 'approve' && {
-        nextSteps: [
-          'Student enrollment has been created',
-          'Student account has been activated',
-          'Initial progress tracking has been set up'
-        ]
-      })
+      results
+    });
+  })
+);
+
+// Email a new activation link for an approved registration (Admin only)
+router.post('/:id/activation',
+  authenticateUser,
+  requirePermission(PERMISSIONS.MANAGE_REGISTRATIONS),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    const registration = await prisma.registration.findUnique({
+      where: { id },
+      include: {
+        student: {
+          include: {
+            user: true
+          }
+        },
+        course: true
+      }
+    });
+
+    if (!registration) {
+      throw new CustomError('Registration not found', 404, 'REGISTRATION_NOT_FOUND');
+    }
+
+    if (registration.status !== 'APPROVED') {
+      throw new CustomError('Only approved registrations can be activated', 400, 'REGISTRATION_NOT_APPROVED');
+    }
+
+    if (registration.student.user.password) {
+      throw new CustomError('This account has already been activated', 400, 'ACCOUNT_ALREADY_ACTIVE');
+    }
+
+    const activation = await issueUserToken(
+      prisma,
+      registration.student.user.id,
+      'ACCOUNT_ACTIVATION',
+      ACTIVATION_TOKEN_TTL_MS
+    );
+
+    sendActivationEmail(registration.student.user, activation);
+
+    const whatsappUrl = generateWhatsAppMessage('approval', {
+      firstName: registration.student.user.firstName,
+      courseName: registration.course.title,
+      activationSent: true
+    });
+
+    res.json({
+      message: 'Activation link emailed to the student',
+      activationSent: true,
+      activationExpiresAt: activation.expiresAt,
+      whatsappUrl
     });
   })
 );
@@ -2,9 +2,9 @@ import express from 'express';
 import { PrismaClient } from '@prisma/client';
 import { 
   authenticateUser, 
-  requireAdmin,
+  requirePermission,
   requireStudentOrAdmin,
-  requireSelfOrAdmin 
+  adminHasPermissions
 } from '../middleware/auth';
 import { 
   validateQuery,
@@ -12,6 +12,7 @@ import {
   searchValidation
 } from '../middleware/validation';
 import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { PERMISSIONS } from '../config/permissions';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -127,6 +128,11 @@ router.get('/dashboard',
           title: reg.course.title,
           price: reg.course.price,
           currency: reg.course.currency
+        },
+        // What the student was quoted, in the currency they chose
+        pricing: {
+          effectivePrice: reg.effectivePrice ?? reg.course.price,
+          currency: reg.currency ?? reg.course.currency
         }
       }))
     });
@@ -136,10 +142,10 @@ router.get('/dashboard',
 // Get all students (Admin only)
 router.get('/',
   authenticateUser,
-  requireAdmin,
+  requirePermission(PERMISSIONS.MANAGE_STUDENTS),
   validateQuery(paginationValidation.concat(searchValidation)),
   asyncHandler(async (req: express.Request, res: express.Response) => {
-    const { page = 1, limit = 10, sortBy = 'createdAt', sortOrder = 'desc', q, status } = req.query as any;
+    const { page = 1, limit = 10, q, status } = req.query as any;
     const offset = (page - 1) * limit;
 
     // Build where clause
@@ -259,9 +265,10 @@ router.get('/:id',
       throw new CustomError('Student not found', 404, 'STUDENT_NOT_FOUND');
     }
 
-    // Check access permissions
-    const isAdmin = req.user!.role === 'ADMIN';
+    // Students see their own record; admins need MANAGE_STUDENTS
     const isOwner = student.userId === req.user!.id;
+    const isAdmin = req.user!.role === 'ADMIN'
+      && await adminHasPermissions(req.user!.id, [PERMISSIONS.MANAGE_STUDENTS]);
 
     if (!isAdmin && !isOwner) {
       throw new CustomError('Access denied', 403, 'ACCESS_DENIED');
@@ -315,6 +322,10 @@ router.get('/:id',
           totalModules: enrollment.course.modules.length,
           totalLessons: enrollment.course.modules.reduce((acc, module) => acc + module.lessons.length, 0)
         },
+        pricing: {
+          effectivePrice: enrollment.effectivePrice ?? enrollment.course.price,
+          currency: enrollment.currency ?? enrollment.course.currency
+        },
         progress: student.progress.find(p => p.courseId === enrollment.course.id)
       })),
       courseProgress: student.progress.map(progress => ({
@@ -347,6 +358,10 @@ router.get('/:id',
           title: reg.course.title,
           price: reg.course.price,
           currency: reg.course.currency
+        },
+        pricing: {
+          effectivePrice: reg.effectivePrice ?? reg.course.price,
+          currency: reg.currency ?? reg.course.currency
         }
       }))
     });
@@ -0,0 +1,274 @@
+import express from 'express';
+import crypto from 'crypto';
+import { PrismaClient, Prisma } from '@prisma/client';
+import {
+  authenticateUser,
+  optionalAuth,
+  requirePermission
+} from '../middleware/auth';
+import {
+  validate,
+  youtubeVideoValidation,
+  videoQueryValidation,
+  validateQuery,
+  paginationValidation
+} from '../middleware/validation';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { PERMISSIONS } from '../config/permissions';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Repeat views from the same viewer inside this window are not counted
+const VIEW_WINDOW_MS = Number(process.env.VIDEO_VIEW_WINDOW) || 24 * 60 * 60 * 1000; // 24 hours
+
+// Identify a viewer by user id, falling back to a hashed IP address
+const getViewerKey = (req: express.Request): string => {
+  if (req.user) {
+    return `user:${req.user.id}`;
+  }
+
+  const ip = req.ip || req.socket.remoteAddress || 'unknown';
+  return `ip:${crypto.createHash('sha256').update(ip).digest('hex')}`;
+};
+
+// Get video library (public)
+router.get('/',
+  optionalAuth,
+  validateQuery(paginationValidation.concat(videoQueryValidation)),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { page = 1, limit = 10, sortBy = 'createdAt', sortOrder = 'desc', q, category, tags, courseId } = req.query as any;
+    const offset = (page - 1) * limit;
+    const isAdmin = req.user?.role === 'ADMIN';
+
+    // Build where clause
+    const where: any = {};
+
+    if (!isAdmin) {
+      where.isActive = true;
+    }
+
+    if (category) {
+      where.category = { equals: category, mode: 'insensitive' };
+    }
+
+    if (courseId) {
+      where.courseId = courseId;
+    }
+
+    if (tags) {
+      const tagList = String(tags).split(',').map(tag => tag.trim()).filter(Boolean);
+      if (tagList.length > 0) {
+        where.tags = { hasSome: tagList };
+      }
+    }
+
+    if (q) {
+      where.OR = [
+        { title: { contains: q, mode: 'insensitive' } },
+        { description: { contains: q, mode: 'insensitive' } }
+      ];
+    }
+
+    const [videos, total] = await Promise.all([
+      prisma.youTubeVideo.findMany({
+        where,
+        orderBy: { [sortBy]: sortOrder },
+        skip: offset,
+        take: limit
+      }),
+      prisma.youTubeVideo.count({ where })
+    ]);
+
+    res.json({
+      videos,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  })
+);
+
+// Get single video (public)
+router.get('/:id',
+  optionalAuth,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const isAdmin = req.user?.role === 'ADMIN';
+
+    const video = await prisma.youTubeVideo.findUnique({
+      where: { id }
+    });
+
+    if (!video || (!video.isActive && !isAdmin)) {
+      throw new CustomError('Video not found', 404, 'VIDEO_NOT_FOUND');
+    }
+
+    res.json({ video });
+  })
+);
+
+// Record a view (public, de-duplicated per viewer)
+router.post('/:id/view',
+  optionalAuth,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    const video = await prisma.youTubeVideo.findUnique({
+      where: { id }
+    });
+
+    if (!video || !video.isActive) {
+      throw new CustomError('Video not found', 404, 'VIDEO_NOT_FOUND');
+    }
+
+    const viewerKey = getViewerKey(req);
+    const now = new Date();
+    const cutoff = new Date(now.getTime() - VIEW_WINDOW_MS);
+
+    // Only refresh a stale view; a recent one means this is a repeat
+    const refreshed = await prisma.videoView.updateMany({
+      where: {
+        videoId: id,
+        viewerKey,
+        lastViewedAt: { lt: cutoff }
+      },
+      data: { lastViewedAt: now }
+    });
+
+    let counted = refreshed.count > 0;
+
+    if (!counted) {
+      try {
+        await prisma.videoView.create({
+          data: { videoId: id, viewerKey, lastViewedAt: now }
+        });
+        counted = true;
+      } catch (error) {
+        // The unique constraint means a recent view already exists for this viewer
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+          throw error;
+        }
+      }
+    }
+
+    if (counted) {
+      await prisma.youTubeVideo.update({
+        where: { id },
+        data: { viewCount: { increment: 1 } }
+      });
+    }
+
+    const updated = await prisma.youTubeVideo.findUnique({
+      where: { id },
+      select: { viewCount: true }
+    });
+
+    res.json({
+      message: counted ? 'View recorded' : 'View already recorded recently',
+      counted,
+      viewCount: updated?.viewCount ?? video.viewCount
+    });
+  })
+);
+
+// Create video (Admin only)
+router.post('/',
+  authenticateUser,
+  requirePermission(PERMISSIONS.MANAGE_VIDEOS),
+  validate(youtubeVideoValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    if (req.body.courseId) {
+      const course = await prisma.course.findUnique({
+        where: { id: req.body.courseId }
+      });
+
+      if (!course) {
+        throw new CustomError('Course not found', 404, 'COURSE_NOT_FOUND');
+      }
+    }
+
+    const video = await prisma.youTubeVideo.create({
+      data: req.body
+    });
+
+    res.status(201).json({
+      message: 'Video created successfully',
+      video
+    });
+  })
+);
+
+// Update video (Admin only)
+router.put('/:id',
+  authenticateUser,
+  requirePermission(PERMISSIONS.MANAGE_VIDEOS),
+  validate(youtubeVideoValidation),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    const existing = await prisma.youTubeVideo.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      throw new CustomError('Video not found', 404, 'VIDEO_NOT_FOUND');
+    }
+
+    if (req.body.courseId) {
+      const course = await prisma.course.findUnique({
+        where: { id: req.body.courseId }
+      });
+
+      if (!course) {
+        throw new CustomError('Course not found', 404, 'COURSE_NOT_FOUND');
+      }
+    }
+
+    const video = await prisma.youTubeVideo.update({
+      where: { id },
+      data: req.body
+    });
+
+    res.json({
+      message: 'Video updated successfully',
+      video
+    });
+  })
+);
+
+// Deactivate video (Admin only)
+router.delete('/:id',
+  authenticateUser,
+  requirePermission(PERMISSIONS.MANAGE_VIDEOS),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    const existing = await prisma.youTubeVideo.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      throw new CustomError('Video not found', 404, 'VIDEO_NOT_FOUND');
+    }
+
+    const video = await prisma.youTubeVideo.update({
+      where: { id },
+      data: { isActive: false }
+    });
+
+    res.json({
+      message: 'Video deactivated successfully',
+      video: {
+        id: video.id,
+        title: video.title,
+        isActive: video.isActive
+      }
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,121 @@
+import { Prisma } from '@prisma/client';
+import { approveRegistration, getSeatUsage } from './admissions';
+
+// Just enough of a transaction for approveRegistration, recording the order of the calls that matter
+const createAdmissionsTx = (params: {
+  status?: string;
+  maxStudents: number | null;
+  enrolled: number;
+  offered?: number;
+}) => {
+  const calls: string[] = [];
+
+  const registration = {
+    id: 'registration-1',
+    status: params.status ?? 'PENDING',
+    courseId: 'course-1',
+    couponId: null,
+    couponDiscount: 0,
+    currency: 'NGN',
+    exchangeRate: 1,
+    reportingRate: null,
+    listPrice: 500,
+    discountAmount: 0,
+    effectivePrice: 500,
+    scholarshipId: null,
+    student: {
+      id: 'student-1',
+      user: { id: 'user-1', password: 'hash', status: 'ACTIVE' }
+    },
+    course: { id: 'course-1', price: 500, maxStudents: params.maxStudents }
+  };
+
+  const tx = {
+    $queryRaw: async (strings: TemplateStringsArray) => {
+      calls.push(strings.join('?'));
+      return [];
+    },
+    registration: {
+      findUnique: async () => registration,
+      count: async () => {
+        calls.push('registration.count');
+        return params.offered ?? 0;
+      },
+      updateMany: async ({ data }: any) => {
+        calls.push(`registration.status=${data.status}`);
+        return { count: 1 };
+      }
+    },
+    registrationStatusChange: { create: async () => ({}) },
+    enrollment: {
+      count: async () => {
+        calls.push('enrollment.count');
+        return params.enrolled;
+      },
+      create: async () => {
+        calls.push('enrollment.create');
+        return {};
+      }
+    },
+    lesson: { count: async () => 3 },
+    studentProgress: { create: async () => ({}) }
+  };
+
+  return { calls, tx: tx as unknown as Prisma.TransactionClient };
+};
+
+describe('seat limits', () => {
+  it('counts enrolled students and open offers against the limit', async () => {
+    const { tx } = createAdmissionsTx({ maxStudents: 10, enrolled: 6, offered: 3 });
+
+    const seats = await getSeatUsage(tx, { id: 'course-1', maxStudents: 10 });
+
+    expect(seats).toEqual({ capacity: 10, enrolled: 6, offered: 3, available: 1 });
+  });
+
+  it('never reports fewer than zero seats, and no limit for unlimited courses', async () => {
+    const full = createAdmissionsTx({ maxStudents: 5, enrolled: 6, offered: 1 });
+    const unlimited = createAdmissionsTx({ maxStudents: null, enrolled: 60 });
+
+    expect((await getSeatUsage(full.tx, { id: 'course-1', maxStudents: 5 })).available).toBe(0);
+    expect((await getSeatUsage(unlimited.tx, { id: 'course-1', maxStudents: null })).available).toBeNull();
+  });
+
+  it('locks the course before counting seats', async () => {
+    const { calls, tx } = createAdmissionsTx({ maxStudents: 10, enrolled: 2 });
+
+    await approveRegistration(tx, 'registration-1', { changedBy: 'admin-1' });
+
+    expect(calls[0]).toContain('"courses"');
+    expect(calls[0]).toContain('FOR UPDATE');
+    expect(calls.indexOf('enrollment.count')).toBeGreaterThan(0);
+  });
+
+  it('approves and enrolls while seats are free', async () => {
+    const { calls, tx } = createAdmissionsTx({ maxStudents: 10, enrolled: 9 });
+
+    const result = await approveRegistration(tx, 'registration-1', { changedBy: 'admin-1' });
+
+    expect(result.status).toBe('APPROVED');
+    expect(calls).toContain('registration.status=APPROVED');
+    expect(calls).toContain('enrollment.create');
+  });
+
+  it('waitlists instead of enrolling when the course is full', async () => {
+    const { calls, tx } = createAdmissionsTx({ maxStudents: 10, enrolled: 9, offered: 1 });
+
+    const result = await approveRegistration(tx, 'registration-1', { changedBy: 'admin-1' });
+
+    expect(result.status).toBe('WAITLISTED');
+    expect(calls).toContain('registration.status=WAITLISTED');
+    expect(calls).not.toContain('enrollment.create');
+  });
+
+  it('refuses to approve a waitlisted registration when the course is full', async () => {
+    const { calls, tx } = createAdmissionsTx({ status: 'WAITLISTED', maxStudents: 10, enrolled: 10 });
+
+    await expect(approveRegistration(tx, 'registration-1', { changedBy: 'admin-1' }))
+      .rejects.toMatchObject({ code: 'COURSE_FULL' });
+    expect(calls).not.toContain('enrollment.create');
+  });
+});
@@ -0,0 +1,389 @@
+import { PrismaClient, Prisma, EnrollmentStatus, RegistrationStatus } from '@prisma/client';
+import { CustomError } from '../middleware/errorHandler';
+import { transitionRegistration } from './registrationStatus';
+import { issueUserToken, buildTokenUrl } from './tokens';
+import { issueUploadToken } from './documents';
+import { redeemCoupon, releaseCoupon } from './pricing';
+import { sendMail } from './mail';
+
+const prisma = new PrismaClient();
+
+// How long an activation link stays valid after approval
+export const ACTIVATION_TOKEN_TTL_MS = (Number(process.env.ACTIVATION_TOKEN_TTL_HOURS) || 72) * 60 * 60 * 1000;
+// How long a waitlisted applicant has to accept a freed seat
+const WAITLIST_OFFER_TTL_MS = (Number(process.env.WAITLIST_OFFER_TTL_HOURS) || 48) * 60 * 60 * 1000;
+
+// Enrollments that take up one of a course's maxStudents seats; only cancelling frees a seat
+const SEAT_HOLDING_STATUSES: EnrollmentStatus[] = ['ACTIVE', 'SUSPENDED', 'COMPLETED'];
+
+export interface SeatUsage {
+  capacity: number | null; // null = unlimited
+  enrolled: number;
+  offered: number; // seats held for waitlisted applicants with an open offer
+  available: number | null;
+}
+
+export type ApprovalResult =
+  | { status: 'APPROVED'; activation: { token: string; expiresAt: Date } | null }
+  | { status: 'WAITLISTED' };
+
+export interface WaitlistOffer {
+  registrationId: string;
+  expiresAt: Date;
+}
+
+// Seat changes for a course take turns, so two approvals cannot both take the last seat
+const lockCourseSeats = async (tx: Prisma.TransactionClient, courseId: string): Promise<void> => {
+  await tx.$queryRaw`SELECT "id" FROM "courses" WHERE "id" = ${courseId} FOR UPDATE`;
+};
+
+// Seats taken in a course. `excludeRegistrationId` leaves out that registration's own offer.
+export const getSeatUsage = async (
+  tx: Prisma.TransactionClient,
+  course: { id: string; maxStudents: number | null },
+  excludeRegistrationId?: string
+): Promise<SeatUsage> => {
+  const enrolled = await tx.enrollment.count({
+    where: {
+      courseId: course.id,
+      status: { in: SEAT_HOLDING_STATUSES }
+    }
+  });
+
+  const offered = await tx.registration.count({
+    where: {
+      courseId: course.id,
+      status: 'WAITLISTED',
+      offerExpiresAt: { gt: new Date() },
+      ...(excludeRegistrationId && { id: { not: excludeRegistrationId } })
+    }
+  });
+
+  return {
+    capacity: course.maxStudents,
+    enrolled,
+    offered,
+    available: course.maxStudents === null ? null : Math.max(course.maxStudents - enrolled - offered, 0)
+  };
+};
+
+// Approve a registration: activate the student's account and create their enrollment and progress record
+// at the price quoted on submission. When the course is full the registration is waitlisted instead.
+// Every approval (single, bulk, accepted waitlist offer) goes through here.
+export const approveRegistration = async (
+  tx: Prisma.TransactionClient,
+  registrationId: string,
+  options: {
+    changedBy: string | null;
+    reason?: string | null;
+    data?: Prisma.RegistrationUpdateManyMutationInput;
+  }
+): Promise<ApprovalResult> => {
+  const registration = await tx.registration.findUnique({
+    where: { id: registrationId },
+    include: {
+      student: {
+        include: {
+          user: true
+        }
+      },
+      course: true
+    }
+  });
+
+  if (!registration) {
+    throw new CustomError('Registration not found', 404, 'REGISTRATION_NOT_FOUND');
+  }
+
+  await lockCourseSeats(tx, registration.courseId);
+
+  const seats = await getSeatUsage(tx, registration.course, registration.id);
+
+  if (seats.available === 0) {
+    if (registration.status === 'WAITLISTED') {
+      throw new CustomError('This course is full', 409, 'COURSE_FULL');
+    }
+
+    await transitionRegistration(tx, registration, 'WAITLISTED', {
+      ...options,
+      reason: 'Course is full'
+    });
+
+    return { status: 'WAITLISTED' };
+  }
+
+  await transitionRegistration(tx, registration, 'APPROVED', {
+    ...options,
+    data: { ...options.data, offerExpiresAt: null }
+  });
+
+  // The coupon quoted on submission is only used up once the registration is approved
+  await redeemCoupon(tx, registration);
+
+  const user = registration.student.user;
+  let activation: { token: string; expiresAt: Date } | null = null;
+
+  if (!user.password) {
+    // New accounts are activated by the student choosing a password
+    activation = await issueUserToken(tx, user.id, 'ACCOUNT_ACTIVATION', ACTIVATION_TOKEN_TTL_MS);
+  } else if (user.status === 'INACTIVE') {
+    await tx.user.update({
+      where: { id: user.id },
+      data: { status: 'ACTIVE' }
+    });
+  }
+
+  // Create enrollment at the price quoted when the registration was submitted
+  await tx.enrollment.create({
+    data: {
+      studentId: registration.student.id,
+      courseId: registration.course.id,
+      status: 'ACTIVE',
+      paymentStatus: 'PENDING',
+      currency: registration.currency,
+      exchangeRate: registration.exchangeRate,
+      reportingRate: registration.reportingRate,
+      listPrice: registration.listPrice ?? registration.course.price,
+      discountAmount: registration.discountAmount,
+      effectivePrice: registration.effectivePrice ?? registration.course.price,
+      couponId: registration.couponId,
+      scholarshipId: registration.scholarshipId
+    }
+  });
+
+  // Create initial progress record
+  const totalLessons = await tx.lesson.count({
+    where: {
+      module: {
+        courseId: registration.course.id
+      }
+    }
+  });
+
+  await tx.studentProgress.create({
+    data: {
+      studentId: registration.student.id,
+      courseId: registration.course.id,
+      totalLessons
+    }
+  });
+
+  return { status: 'APPROVED', activation };
+};
+
+// Reject a registration; a coupon use it already holds is given back
+export const rejectRegistration = async (
+  tx: Prisma.TransactionClient,
+  registration: { id: string; status: RegistrationStatus },
+  options: {
+    changedBy: string | null;
+    reason?: string | null;
+    data?: Prisma.RegistrationUpdateManyMutationInput;
+  }
+): Promise<void> => {
+  await transitionRegistration(tx, registration, 'REJECTED', options);
+  await releaseCoupon(tx, registration.id);
+};
+
+// Offer free seats in a course to waitlisted applicants, longest waiting first.
+// Offers nobody accepted in time lapse first, which may free their seats for the next in line.
+export const promoteWaitlist = async (courseId: string): Promise<WaitlistOffer[]> => {
+  const offers = await prisma.$transaction(async (tx) => {
+    await lockCourseSeats(tx, courseId);
+
+    const course = await tx.course.findUnique({
+      where: { id: courseId }
+    });
+
+    // Without a seat limit, waitlisting is an admin's call and nobody is promoted automatically
+    if (!course || course.maxStudents === null) {
+      return [];
+    }
+
+    const lapsed = await tx.registration.findMany({
+      where: {
+        courseId,
+        status: 'WAITLISTED',
+        offerExpiresAt: { lte: new Date() }
+      }
+    });
+
+    for (const registration of lapsed) {
+      await transitionRegistration(tx, registration, 'WITHDRAWN', {
+        changedBy: null,
+        reason: 'The waitlist offer was not accepted in time'
+      });
+
+      await releaseCoupon(tx, registration.id);
+    }
+
+    const seats = await getSeatUsage(tx, course);
+
+    if (!seats.available) {
+      return [];
+    }
+
+    const next = await tx.registration.findMany({
+      where: {
+        courseId,
+        status: 'WAITLISTED',
+        offerExpiresAt: null
+      },
+      include: {
+        student: {
+          include: {
+            user: true
+          }
+        }
+      },
+      orderBy: { waitlistedAt: 'asc' },
+      take: seats.available
+    });
+
+    const offeredAt = new Date();
+    const expiresAt = new Date(offeredAt.getTime() + WAITLIST_OFFER_TTL_MS);
+
+    const made = [];
+
+    for (const registration of next) {
+      await tx.registration.update({
+        where: { id: registration.id },
+        data: { offeredAt, offerExpiresAt: expiresAt }
+      });
+
+      // Applicants may not have a password yet, so the offer is accepted with an upload token
+      const { token } = await issueUploadToken(tx, registration.id);
+
+      made.push({ registration, token, expiresAt });
+    }
+
+    return made;
+  });
+
+  for (const { registration, token, expiresAt } of offers) {
+    sendWaitlistOfferEmail(registration.student.user, registration.id, token, expiresAt);
+  }
+
+  return offers.map(({ registration, expiresAt }) => ({ registrationId: registration.id, expiresAt }));
+};
+
+// Mail is not awaited, so callers' response timing does not depend on delivery
+const sendWaitlistOfferEmail = (
+  user: { email: string; firstName: string },
+  registrationId: string,
+  token: string,
+  expiresAt: Date
+): void => {
+  const offerUrl = buildTokenUrl(`/registrations/${registrationId}/offer`, token);
+
+  sendMail({
+    to: user.email,
+    subject: 'A place is available for you at Eck School of Business',
+    text: `Dear ${user.firstName},\n\n` +
+          `A place has become available in the course you are waitlisted for. ` +
+          `Accept it using the link below before ${expiresAt.toUTCString()}, ` +
+          `after which it will be offered to the next applicant:\n\n` +
+          `${offerUrl}`
+  }).catch(error => {
+    console.error('Waitlist offer email failed:', error);
+  });
+};
+
+// Take up a seat offered from the waiting list
+export const acceptWaitlistOffer = async (
+  registration: { id: string; status: string; offerExpiresAt: Date | null },
+  userId: string
+): Promise<ApprovalResult> => {
+  if (registration.status !== 'WAITLISTED' || !registration.offerExpiresAt) {
+    throw new CustomError('There is no place on offer for this registration', 400, 'NO_WAITLIST_OFFER');
+  }
+
+  if (registration.offerExpiresAt <= new Date()) {
+    throw new CustomError('This offer has expired', 400, 'WAITLIST_OFFER_EXPIRED');
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    return approveRegistration(tx, registration.id, {
+      changedBy: userId,
+      reason: 'Accepted a place from the waiting list'
+    });
+  });
+
+  if (result.status === 'APPROVED' && result.activation) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (user) {
+      sendActivationEmail(user, result.activation);
+    }
+  }
+
+  return result;
+};
+
+// Email an activation link to the student. Only the student ever sees the link,
+// so nobody else can choose their password. Mail is not awaited.
+export const sendActivationEmail = (
+  user: { email: string; firstName: string },
+  activation: { token: string; expiresAt: Date }
+): void => {
+  const activationUrl = buildTokenUrl('/activate', activation.token);
+
+  sendMail({
+    to: user.email,
+    subject: 'Activate your Eck School of Business account',
+    text: `Dear ${user.firstName},\n\n` +
+          `Your registration has been approved. Set your password to activate your account:\n\n` +
+          `${activationUrl}\n\n` +
+          `This link expires on ${activation.expiresAt.toUTCString()}.`
+  }).catch(error => {
+    console.error('Activation email failed:', error);
+  });
+};
+
+// Let unanswered offers lapse and offer any free seats to courses' waiting lists (for the scheduler).
+// This also catches up on promotions that failed when a seat was freed.
+export const processWaitlists = async (): Promise<{ courses: number; offers: number }> => {
+  const courses = await prisma.registration.findMany({
+    where: {
+      status: 'WAITLISTED',
+      OR: [
+        { offerExpiresAt: null },
+        { offerExpiresAt: { lte: new Date() } }
+      ]
+    },
+    select: { courseId: true },
+    distinct: ['courseId']
+  });
+
+  let offers = 0;
+
+  for (const { courseId } of courses) {
+    offers += (await promoteWaitlist(courseId)).length;
+  }
+
+  return { courses: courses.length, offers };
+};
+
+// Run the waitlist check periodically (WAITLIST_CHECK_INTERVAL ms, default hourly)
+export const startWaitlistScheduler = (): NodeJS.Timeout => {
+  const intervalMs = Number(process.env.WAITLIST_CHECK_INTERVAL) || 60 * 60 * 1000;
+
+  const run = () => {
+    processWaitlists()
+      .then(({ offers }) => {
+        if (offers > 0) {
+          console.log(`🎟️ Waitlist: ${offers} places offered`);
+        }
+      })
+      .catch(error => {
+        console.error('Waitlist check failed:', error);
+      });
+  };
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return timer;
+};
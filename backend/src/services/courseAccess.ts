@@ -0,0 +1,84 @@
+import { PrismaClient, CourseAccessType, PaymentStatus } from '@prisma/client';
+import { CustomError } from '../middleware/errorHandler';
+
+const prisma = new PrismaClient();
+
+type AccessCourse = { id: string; accessType: CourseAccessType; price: number };
+type AccessEnrollment = {
+  id: string;
+  effectivePrice: number | null;
+  paymentStatus: PaymentStatus;
+  accessOverride: boolean;
+  installmentPlanId: string | null;
+};
+
+// Whether an enrollment unlocks paid lessons. Installment plans unlock after the first payment;
+// falling behind suspends the enrollment instead (see services/installments).
+export const hasPaidAccess = async (enrollment: AccessEnrollment): Promise<boolean> => {
+  if (enrollment.paymentStatus === 'COMPLETED' || enrollment.accessOverride) {
+    return true;
+  }
+
+  // Nothing to pay after discounts (e.g. a full scholarship)
+  if (enrollment.effectivePrice !== null && enrollment.effectivePrice <= 0) {
+    return true;
+  }
+
+  if (!enrollment.installmentPlanId) {
+    return false;
+  }
+
+  const paidInstallments = await prisma.installment.count({
+    where: { enrollmentId: enrollment.id, status: 'PAID' }
+  });
+
+  return paidInstallments > 0;
+};
+
+// The module open to unpaid students on PREVIEW courses (lowest orderIndex)
+export const getPreviewModuleId = async (course: AccessCourse): Promise<string | null> => {
+  if (course.accessType !== 'PREVIEW') {
+    return null;
+  }
+
+  const module = await prisma.courseModule.findFirst({
+    where: { courseId: course.id },
+    orderBy: { orderIndex: 'asc' },
+    select: { id: true }
+  });
+
+  return module?.id ?? null;
+};
+
+// Check access to a module's lessons; paidAccess comes from hasPaidAccess
+// and previewModuleId from getPreviewModuleId
+export const canAccessModule = (
+  course: AccessCourse,
+  paidAccess: boolean,
+  moduleId: string,
+  previewModuleId: string | null
+): boolean => {
+  if (course.accessType === 'FREE' || course.price <= 0) {
+    return true;
+  }
+
+  return paidAccess || moduleId === previewModuleId;
+};
+
+// Throw PAYMENT_REQUIRED unless the enrollment may open lessons in the module
+export const assertLessonAccess = async (
+  courseId: string,
+  enrollment: AccessEnrollment,
+  moduleId: string
+): Promise<void> => {
+  const course = await prisma.course.findUniqueOrThrow({
+    where: { id: courseId },
+    select: { id: true, accessType: true, price: true }
+  });
+
+  const paidAccess = await hasPaidAccess(enrollment);
+
+  if (!canAccessModule(course, paidAccess, moduleId, await getPreviewModuleId(course))) {
+    throw new CustomError('Payment is required to access this lesson', 402, 'PAYMENT_REQUIRED');
+  }
+};
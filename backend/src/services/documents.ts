@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import { PrismaClient, Prisma, DocumentType } from '@prisma/client';
+import { CustomError } from '../middleware/errorHandler';
+import { hashToken } from './tokens';
+import { detectFileType, saveUpload, deleteStoredFiles } from './files';
+
+const prisma = new PrismaClient();
+
+const MAX_DOCUMENTS_PER_REGISTRATION = 10;
+// How long an applicant can keep attaching documents after submitting
+const UPLOAD_TOKEN_TTL_MS = (Number(process.env.REGISTRATION_UPLOAD_TTL_HOURS) || 72) * 60 * 60 * 1000;
+
+// Issue the token an applicant uses to attach documents to a new registration.
+// Returns the raw token; only its hash is stored.
+export const issueUploadToken = async (
+  tx: Prisma.TransactionClient,
+  registrationId: string
+): Promise<{ token: string; expiresAt: Date }> => {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + UPLOAD_TOKEN_TTL_MS);
+
+  await tx.registration.update({
+    where: { id: registrationId },
+    data: {
+      uploadTokenHash: hashToken(token),
+      uploadTokenExpiresAt: expiresAt
+    }
+  });
+
+  return { token, expiresAt };
+};
+
+export const hasValidUploadToken = (
+  registration: { uploadTokenHash: string | null; uploadTokenExpiresAt: Date | null },
+  token: string | undefined
+): boolean => {
+  if (!token || !registration.uploadTokenHash || !registration.uploadTokenExpiresAt) {
+    return false;
+  }
+
+  const expected = Buffer.from(registration.uploadTokenHash);
+  const received = Buffer.from(hashToken(token));
+
+  return registration.uploadTokenExpiresAt > new Date()
+    && expected.length === received.length
+    && crypto.timingSafeEqual(expected, received);
+};
+
+// Check an uploaded file and keep it as one of a registration's documents
+export const storeRegistrationDocument = async (
+  registrationId: string,
+  file: Express.Multer.File,
+  type: DocumentType,
+  uploadedBy: string | null
+) => {
+  if (type === 'PASSPORT_PHOTO' && !detectFileType(file.buffer)?.mimeType.startsWith('image/')) {
+    throw new CustomError('Passport photos must be JPEG or PNG images', 400, 'INVALID_FILE_TYPE');
+  }
+
+  const documentCount = await prisma.registrationDocument.count({
+    where: { registrationId }
+  });
+
+  if (documentCount >= MAX_DOCUMENTS_PER_REGISTRATION) {
+    throw new CustomError(
+      `A registration can have at most ${MAX_DOCUMENTS_PER_REGISTRATION} documents`,
+      400,
+      'TOO_MANY_DOCUMENTS'
+    );
+  }
+
+  const stored = await saveUpload(`registrations/${registrationId}`, file);
+
+  try {
+    return await prisma.registrationDocument.create({
+      data: {
+        registrationId,
+        type,
+        ...stored,
+        uploadedBy
+      }
+    });
+  } catch (error) {
+    await deleteStoredFiles([stored.storageKey]);
+    throw error;
+  }
+};
+
+export const deleteRegistrationDocument = async (document: { id: string; storageKey: string }): Promise<void> => {
+  await prisma.registrationDocument.delete({
+    where: { id: document.id }
+  });
+
+  await deleteStoredFiles([document.storageKey]);
+};
@@ -0,0 +1,28 @@
+import { PrismaClient } from '@prisma/client';
+import { issueUserToken, buildTokenUrl } from './tokens';
+import { sendMail } from './mail';
+
+const prisma = new PrismaClient();
+
+// How long an email verification link stays valid
+const EMAIL_VERIFICATION_TOKEN_TTL_MS = (Number(process.env.EMAIL_VERIFICATION_TOKEN_TTL_HOURS) || 48) * 60 * 60 * 1000;
+
+// Issue a verification link and email it to the address being verified.
+// Mail is not awaited, so callers' response timing does not depend on delivery.
+export const sendVerificationEmail = async (user: { id: string; email: string; firstName: string }): Promise<void> => {
+  const { token } = await issueUserToken(prisma, user.id, 'EMAIL_VERIFICATION', EMAIL_VERIFICATION_TOKEN_TTL_MS);
+  const verifyUrl = buildTokenUrl('/verify-email', token);
+  const hours = Math.round(EMAIL_VERIFICATION_TOKEN_TTL_MS / 3600000);
+
+  sendMail({
+    to: user.email,
+    subject: 'Verify your email for Eck School of Business',
+    text: `Dear ${user.firstName},\n\n` +
+          `Thank you for registering. Please confirm your email address using the link below:\n\n` +
+          `${verifyUrl}\n\n` +
+          `This link expires in ${hours} hours. ` +
+          `Your registration will be reviewed once your email address is verified.`
+  }).catch(error => {
+    console.error('Email verification email failed:', error);
+  });
+};
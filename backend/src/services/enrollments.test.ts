@@ -0,0 +1,85 @@
+// Just enough of the Prisma client for cancelEnrollment, kept in memory
+const mockEnrollments: Record<string, any>[] = [];
+
+const mockPrisma: any = {
+  enrollment: {
+    findUnique: async ({ where }: any) => mockEnrollments.find(enrollment => enrollment.id === where.id) ?? null,
+    findUniqueOrThrow: async ({ where }: any) => mockEnrollments.find(enrollment => enrollment.id === where.id),
+    updateMany: async ({ where, data }: any) => {
+      const matched = mockEnrollments.filter(enrollment =>
+        enrollment.id === where.id && enrollment.status !== where.status.not);
+      matched.forEach(enrollment => Object.assign(enrollment, data));
+      return { count: matched.length };
+    }
+  }
+};
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => mockPrisma)
+}));
+
+jest.mock('./admissions', () => ({
+  promoteWaitlist: jest.fn(async () => [])
+}));
+
+// Imported after the mocks are in place
+import { promoteWaitlist } from './admissions';
+import { cancelEnrollment } from './enrollments';
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockEnrollments.length = 0;
+  mockEnrollments.push({
+    id: 'enrollment-1',
+    courseId: 'course-1',
+    status: 'ACTIVE',
+    accessOverride: true
+  });
+});
+
+describe('cancelling an enrollment', () => {
+  it('cancels it, records why, and offers the seat to the waiting list', async () => {
+    await cancelEnrollment('enrollment-1', { cancelledBy: 'admin-1', reason: 'Dropped out' });
+
+    expect(mockEnrollments[0]).toMatchObject({
+      status: 'CANCELLED',
+      accessOverride: false,
+      cancelledBy: 'admin-1',
+      cancellationReason: 'Dropped out'
+    });
+    expect(promoteWaitlist).toHaveBeenCalledWith('course-1');
+  });
+
+  it('frees a suspended enrollment\'s seat too', async () => {
+    mockEnrollments[0]!.status = 'SUSPENDED';
+
+    await cancelEnrollment('enrollment-1', { cancelledBy: 'admin-1', reason: 'Never paid' });
+
+    expect(mockEnrollments[0]!.status).toBe('CANCELLED');
+    expect(promoteWaitlist).toHaveBeenCalledWith('course-1');
+  });
+
+  it('cancels only once', async () => {
+    await cancelEnrollment('enrollment-1', { cancelledBy: 'admin-1', reason: 'Dropped out' });
+
+    await expect(cancelEnrollment('enrollment-1', { cancelledBy: 'admin-2', reason: 'Again' }))
+      .rejects.toMatchObject({ code: 'ENROLLMENT_CANCELLED' });
+    expect(mockEnrollments[0]!.cancelledBy).toBe('admin-1');
+    expect(promoteWaitlist).toHaveBeenCalledTimes(1);
+  });
+
+  it('still cancels when the waitlist promotion fails', async () => {
+    (promoteWaitlist as jest.Mock).mockRejectedValueOnce(new Error('database unavailable'));
+    jest.spyOn(console, 'error').mockImplementationOnce(() => undefined);
+
+    await cancelEnrollment('enrollment-1', { cancelledBy: 'admin-1', reason: 'Dropped out' });
+
+    expect(mockEnrollments[0]!.status).toBe('CANCELLED');
+  });
+
+  it('reports an unknown enrollment', async () => {
+    await expect(cancelEnrollment('missing', { cancelledBy: 'admin-1', reason: 'Dropped out' }))
+      .rejects.toMatchObject({ code: 'ENROLLMENT_NOT_FOUND' });
+  });
+});
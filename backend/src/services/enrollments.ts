@@ -0,0 +1,94 @@
+import { PrismaClient, EnrollmentStatus } from '@prisma/client';
+import { CustomError } from '../middleware/errorHandler';
+import { INSTALLMENT_OVERDUE } from './installments';
+import { promoteWaitlist } from './admissions';
+
+const prisma = new PrismaClient();
+
+// Resolve the caller's student profile and their enrollment in a course.
+// Throws NOT_ENROLLED unless the enrollment is in one of the allowed statuses.
+export const requireEnrollment = async (
+  userId: string,
+  courseId: string,
+  allowedStatuses: EnrollmentStatus[] = ['ACTIVE']
+) => {
+  const student = await prisma.student.findUnique({
+    where: { userId }
+  });
+
+  if (!student) {
+    throw new CustomError('Student profile not found', 404, 'STUDENT_NOT_FOUND');
+  }
+
+  const enrollment = await prisma.enrollment.findUnique({
+    where: {
+      studentId_courseId: {
+        studentId: student.id,
+        courseId
+      }
+    }
+  });
+
+  // Suspended for a missed installment: paying it restores access
+  if (enrollment?.status === 'SUSPENDED' && enrollment.suspensionReason === INSTALLMENT_OVERDUE
+    && !allowedStatuses.includes('SUSPENDED')) {
+    throw new CustomError('An installment payment is overdue', 402, 'PAYMENT_REQUIRED');
+  }
+
+  if (!enrollment || !allowedStatuses.includes(enrollment.status)) {
+    throw new CustomError('You are not enrolled in this course', 403, 'NOT_ENROLLED');
+  }
+
+  return { student, enrollment };
+};
+
+// Cancel an enrollment without a refund (e.g. the student dropped out) and offer its seat to the
+// waiting list. Refunds cancel their enrollment themselves (see services/refunds).
+export const cancelEnrollment = async (
+  enrollmentId: string,
+  options: { cancelledBy: string; reason: string }
+) => {
+  const existing = await prisma.enrollment.findUnique({
+    where: { id: enrollmentId }
+  });
+
+  if (!existing) {
+    throw new CustomError('Enrollment not found', 404, 'ENROLLMENT_NOT_FOUND');
+  }
+
+  // Conditional update so a cancellation is only recorded once
+  const { count } = await prisma.enrollment.updateMany({
+    where: {
+      id: enrollmentId,
+      status: { not: 'CANCELLED' }
+    },
+    data: {
+      status: 'CANCELLED',
+      accessOverride: false,
+      cancelledAt: new Date(),
+      cancelledBy: options.cancelledBy,
+      cancellationReason: options.reason
+    }
+  });
+
+  if (count === 0) {
+    throw new CustomError('This enrollment has been cancelled', 400, 'ENROLLMENT_CANCELLED');
+  }
+
+  // Promotions that fail here are picked up by the next waitlist check
+  await promoteWaitlist(existing.courseId).catch(error => {
+    console.error('Waitlist promotion failed:', error);
+  });
+
+  return prisma.enrollment.findUniqueOrThrow({
+    where: { id: enrollmentId },
+    include: {
+      student: {
+        include: {
+          user: true
+        }
+      },
+      course: true
+    }
+  });
+};
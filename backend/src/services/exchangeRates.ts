@@ -0,0 +1,70 @@
+import { Prisma } from '@prisma/client';
+import { CustomError } from '../middleware/errorHandler';
+
+// Currency revenue reports are converted to; exchange rates are kept against it
+export const REPORTING_CURRENCY = (process.env.REPORTING_CURRENCY || 'NGN').toUpperCase();
+
+// Units of a currency per unit of the reporting currency, or null if no rate is set
+const findRate = async (tx: Prisma.TransactionClient, currency: string): Promise<number | null> => {
+  if (currency === REPORTING_CURRENCY) {
+    return 1;
+  }
+
+  const exchangeRate = await tx.exchangeRate.findUnique({
+    where: { currency }
+  });
+
+  return exchangeRate?.rate ?? null;
+};
+
+// Units of `to` per unit of `from` at the current rates, or null if either rate is missing
+export const findExchangeRate = async (
+  tx: Prisma.TransactionClient,
+  from: string,
+  to: string
+): Promise<number | null> => {
+  if (from === to) {
+    return 1;
+  }
+
+  const [fromRate, toRate] = await Promise.all([findRate(tx, from), findRate(tx, to)]);
+
+  return fromRate && toRate ? toRate / fromRate : null;
+};
+
+// Like findExchangeRate, but a missing rate means the currency cannot be used
+export const getExchangeRate = async (tx: Prisma.TransactionClient, from: string, to: string): Promise<number> => {
+  const rate = await findExchangeRate(tx, from, to);
+
+  if (rate === null) {
+    throw new CustomError(`Payments in ${to} are not available for this course`, 400, 'UNSUPPORTED_CURRENCY');
+  }
+
+  return rate;
+};
+
+// A course's price in its own currency and in every currency with a rate
+export const listCoursePrices = async (
+  tx: Prisma.TransactionClient,
+  course: { price: number; currency: string }
+): Promise<{ currency: string; amount: number }[]> => {
+  const rates = await tx.exchangeRate.findMany({
+    orderBy: { currency: 'asc' }
+  });
+
+  const ratesByCurrency = new Map<string, number>(rates.map(rate => [rate.currency, rate.rate]));
+  ratesByCurrency.set(REPORTING_CURRENCY, 1);
+
+  const courseRate = ratesByCurrency.get(course.currency);
+
+  if (!courseRate) {
+    return [{ currency: course.currency, amount: course.price }];
+  }
+
+  return [...ratesByCurrency.entries()]
+    .sort(([a], [b]) => (a === course.currency ? -1 : b === course.currency ? 1 : a.localeCompare(b)))
+    .map(([currency, rate]) => ({
+      currency,
+      amount: currency === course.currency ? course.price : Math.round(course.price * rate / courseRate * 100) / 100
+    }));
+};
@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import path from 'path';
+import express from 'express';
+import { CustomError } from '../middleware/errorHandler';
+import { getFileStorage } from './storage';
+
+// Stored files served by routes/files, by the table they live in
+export type FileKind = 'registration-documents' | 'lesson-files';
+
+export interface StoredFile {
+  storageKey: string;
+  mimeType: string;
+  size: number;
+  originalName: string;
+}
+
+// How long a signed download link works (FILE_URL_TTL_SECONDS, default 5 minutes)
+const FILE_URL_TTL_MS = (Number(process.env.FILE_URL_TTL_SECONDS) || 5 * 60) * 1000;
+
+// Leading bytes of each accepted file type
+const FILE_SIGNATURES = [
+  { mimeType: 'application/pdf', extension: '.pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { mimeType: 'image/png', extension: '.png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', extension: '.jpg', bytes: [0xff, 0xd8, 0xff] }
+];
+
+// Identify a file from its contents rather than its name or declared type
+export const detectFileType = (data: Buffer): { mimeType: string; extension: string } | null => {
+  const signature = FILE_SIGNATURES.find(candidate => candidate.bytes.every((byte, index) => data[index] === byte));
+  return signature ? { mimeType: signature.mimeType, extension: signature.extension } : null;
+};
+
+// Check an upload's contents and write it to storage under a random name in `folder`
+export const saveUpload = async (folder: string, file: Express.Multer.File): Promise<StoredFile> => {
+  const detected = detectFileType(file.buffer);
+
+  if (!detected || detected.mimeType !== file.mimetype) {
+    throw new CustomError('The file contents do not match its type', 400, 'INVALID_FILE_TYPE');
+  }
+
+  const storageKey = `${folder}/${crypto.randomUUID()}${detected.extension}`;
+
+  await getFileStorage().put(storageKey, file.buffer, detected.mimeType);
+
+  return {
+    storageKey,
+    mimeType: detected.mimeType,
+    size: file.size,
+    // Kept for display only; it never touches the file system
+    originalName: path.basename(file.originalname).slice(0, 255)
+  };
+};
+
+// Remove files from storage, e.g. after their records were deleted
+export const deleteStoredFiles = async (storageKeys: string[]): Promise<void> => {
+  const storage = getFileStorage();
+
+  await Promise.all(storageKeys.map(key => storage.delete(key).catch(error => {
+    console.error(`Failed to delete stored file ${key}:`, error);
+  })));
+};
+
+// Authenticated download URL of a stored file
+export const buildFileUrl = (kind: FileKind, id: string): string => `/api/files/${kind}/${id}`;
+
+const fileUrlSecret = (): string => {
+  const secret = process.env.FILE_URL_SECRET || process.env.JWT_SECRET;
+
+  if (!secret) {
+    throw new Error('FILE_URL_SECRET is not defined in environment variables');
+  }
+
+  return secret;
+};
+
+const fileSignature = (kind: FileKind, id: string, expires: number): string => {
+  return crypto.createHmac('sha256', fileUrlSecret()).update(`${kind}:${id}:${expires}`).digest('hex');
+};
+
+// Short-lived URL that works without a login, for <img> and <iframe> embedding
+export const signFileUrl = (kind: FileKind, id: string): { url: string; expiresAt: Date } => {
+  const expiresAt = new Date(Date.now() + FILE_URL_TTL_MS);
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+
+  return {
+    url: `${buildFileUrl(kind, id)}?expires=${expires}&signature=${fileSignature(kind, id, expires)}`,
+    expiresAt
+  };
+};
+
+export const verifyFileSignature = (kind: FileKind, id: string, expires: unknown, signature: unknown): boolean => {
+  const expiresAt = Number(expires);
+
+  if (typeof signature !== 'string' || !Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(fileSignature(kind, id, expiresAt));
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
+
+// Stream a stored file to the client
+export const sendStoredFile = async (res: express.Response, file: StoredFile): Promise<void> => {
+  const stream = await getFileStorage().get(file.storageKey);
+
+  res.set({
+    'Content-Type': file.mimeType,
+    'Content-Length': String(file.size),
+    'Content-Disposition': `inline; filename="${file.originalName.replace(/[^\w.\- ]/g, '_')}"`,
+    'Cache-Control': 'private, no-store'
+  });
+
+  stream.on('error', error => res.destroy(error));
+  stream.pipe(res);
+};
@@ -0,0 +1,240 @@
+import { PrismaClient, Prisma, InstallmentStatus } from '@prisma/client';
+import { CustomError } from '../middleware/errorHandler';
+
+const prisma = new PrismaClient();
+
+// Enrollment.suspensionReason used when an installment is overdue past the grace period
+export const INSTALLMENT_OVERDUE = 'INSTALLMENT_OVERDUE';
+
+// Installments that still have to be paid
+export const OPEN_INSTALLMENT_STATUSES: InstallmentStatus[] = ['SCHEDULED', 'OVERDUE'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Check that a plan's amounts and due dates line up
+export const assertValidInstallmentPlan = (amounts: number[], dueOffsetsDays: number[]): void => {
+  if (amounts.length !== dueOffsetsDays.length) {
+    throw new CustomError('Each payment needs both an amount and a due date', 400, 'INVALID_INSTALLMENT_PLAN');
+  }
+
+  const ascending = dueOffsetsDays.every((offset, index) => index === 0 || offset > dueOffsetsDays[index - 1]!);
+
+  if (!ascending) {
+    throw new CustomError('Payment due dates must be in ascending order', 400, 'INVALID_INSTALLMENT_PLAN');
+  }
+};
+
+// Schedule an enrollment's installments from a plan, starting now.
+// priceFactor scales the plan's amounts for discounted or foreign-currency enrollments.
+export const scheduleInstallments = async (
+  tx: Prisma.TransactionClient,
+  enrollmentId: string,
+  plan: { id: string; amounts: number[]; dueOffsetsDays: number[] },
+  currency: string,
+  priceFactor = 1
+) => {
+  // Takes turns with checkouts for the enrollment (see services/payments), so a plan is never
+  // chosen next to a full-price payment that may still go through
+  await tx.$queryRaw`SELECT "id" FROM "enrollments" WHERE "id" = ${enrollmentId} FOR UPDATE`;
+
+  const fullPayment = await tx.payment.findFirst({
+    where: {
+      enrollmentId,
+      installmentId: null,
+      status: { in: ['PENDING', 'COMPLETED'] }
+    }
+  });
+
+  if (fullPayment?.status === 'COMPLETED') {
+    throw new CustomError('This enrollment has already been paid for', 400, 'ALREADY_PAID');
+  }
+
+  if (fullPayment) {
+    throw new CustomError('A checkout for the full price is already open for this enrollment', 409, 'PAYMENT_IN_PROGRESS');
+  }
+
+  const now = Date.now();
+  const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+  // Round each installment to cents; the last one absorbs the rounding difference
+  const total = roundMoney(plan.amounts.reduce((sum, amount) => sum + amount, 0) * priceFactor);
+  const amounts = plan.amounts.map(amount => roundMoney(amount * priceFactor));
+  const lastIndex = amounts.length - 1;
+  if (lastIndex >= 0) {
+    amounts[lastIndex] = roundMoney(total - amounts.slice(0, lastIndex).reduce((sum, amount) => sum + amount, 0));
+  }
+
+  const { count } = await tx.enrollment.updateMany({
+    where: { id: enrollmentId, installmentPlanId: null },
+    data: { installmentPlanId: plan.id }
+  });
+
+  if (count === 0) {
+    throw new CustomError('An installment plan has already been chosen for this enrollment', 400, 'INSTALLMENT_PLAN_EXISTS');
+  }
+
+  await tx.installment.createMany({
+    data: amounts.map((amount, index) => ({
+      enrollmentId,
+      sequence: index + 1,
+      amount,
+      currency,
+      dueDate: new Date(now + plan.dueOffsetsDays[index]! * DAY_MS)
+    }))
+  });
+
+  return tx.installment.findMany({
+    where: { enrollmentId },
+    orderBy: { sequence: 'asc' }
+  });
+};
+
+// The earliest installment still to be paid
+export const findNextInstallment = async (enrollmentId: string) => {
+  return prisma.installment.findFirst({
+    where: {
+      enrollmentId,
+      status: { in: OPEN_INSTALLMENT_STATUSES }
+    },
+    orderBy: { sequence: 'asc' }
+  });
+};
+
+// Reactivate an enrollment suspended for falling behind on its installments
+const liftOverdueSuspension = async (tx: Prisma.TransactionClient, enrollmentId: string): Promise<void> => {
+  await tx.enrollment.updateMany({
+    where: {
+      id: enrollmentId,
+      status: 'SUSPENDED',
+      suspensionReason: INSTALLMENT_OVERDUE
+    },
+    data: {
+      status: 'ACTIVE',
+      suspensionReason: null
+    }
+  });
+};
+
+// Mark an installment paid and reactivate an enrollment suspended for non-payment.
+// Returns whether every installment of the enrollment is now paid.
+export const recordInstallmentPayment = async (
+  tx: Prisma.TransactionClient,
+  installmentId: string
+): Promise<{ allPaid: boolean }> => {
+  const installment = await tx.installment.update({
+    where: { id: installmentId },
+    data: {
+      status: 'PAID',
+      paidAt: new Date()
+    }
+  });
+
+  const [unpaid, overdue] = await Promise.all([
+    tx.installment.count({
+      where: { enrollmentId: installment.enrollmentId, status: { in: OPEN_INSTALLMENT_STATUSES } }
+    }),
+    tx.installment.count({
+      where: { enrollmentId: installment.enrollmentId, status: 'OVERDUE' }
+    })
+  ]);
+
+  if (overdue === 0) {
+    await liftOverdueSuspension(tx, installment.enrollmentId);
+  }
+
+  return { allPaid: unpaid === 0 };
+};
+
+// Cancel the installments still open once an enrollment is paid in full without them,
+// so they never fall overdue
+export const cancelOpenInstallments = async (tx: Prisma.TransactionClient, enrollmentId: string): Promise<void> => {
+  const { count } = await tx.installment.updateMany({
+    where: {
+      enrollmentId,
+      status: { in: OPEN_INSTALLMENT_STATUSES }
+    },
+    data: { status: 'CANCELLED' }
+  });
+
+  if (count > 0) {
+    await liftOverdueSuspension(tx, enrollmentId);
+  }
+};
+
+// Flag late installments and suspend enrollments overdue past their plan's grace period
+export const processOverdueInstallments = async (): Promise<{ overdue: number; suspended: number }> => {
+  const now = new Date();
+
+  const { count: overdue } = await prisma.installment.updateMany({
+    where: {
+      status: 'SCHEDULED',
+      dueDate: { lt: now }
+    },
+    data: { status: 'OVERDUE' }
+  });
+
+  const lateInstallments = await prisma.installment.findMany({
+    where: {
+      status: 'OVERDUE',
+      enrollment: {
+        status: 'ACTIVE',
+        paymentStatus: { not: 'COMPLETED' },
+        accessOverride: false
+      }
+    },
+    include: {
+      enrollment: {
+        include: {
+          installmentPlan: true
+        }
+      }
+    }
+  });
+
+  const enrollmentIds = new Set<string>();
+
+  for (const installment of lateInstallments) {
+    const graceDays = installment.enrollment.installmentPlan?.graceDays ?? 0;
+    if (installment.dueDate.getTime() + graceDays * DAY_MS < now.getTime()) {
+      enrollmentIds.add(installment.enrollmentId);
+    }
+  }
+
+  const { count: suspended } = enrollmentIds.size > 0
+    ? await prisma.enrollment.updateMany({
+        where: {
+          id: { in: [...enrollmentIds] },
+          status: 'ACTIVE',
+          paymentStatus: { not: 'COMPLETED' }
+        },
+        data: {
+          status: 'SUSPENDED',
+          suspensionReason: INSTALLMENT_OVERDUE
+        }
+      })
+    : { count: 0 };
+
+  return { overdue, suspended };
+};
+
+// Run the overdue check periodically (INSTALLMENT_CHECK_INTERVAL ms, default hourly)
+export const startInstallmentScheduler = (): NodeJS.Timeout => {
+  const intervalMs = Number(process.env.INSTALLMENT_CHECK_INTERVAL) || 60 * 60 * 1000;
+
+  const run = () => {
+    processOverdueInstallments()
+      .then(({ overdue, suspended }) => {
+        if (overdue > 0 || suspended > 0) {
+          console.log(`💳 Installments: ${overdue} marked overdue, ${suspended} enrollments suspended`);
+        }
+      })
+      .catch(error => {
+        console.error('Overdue installment check failed:', error);
+      });
+  };
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return timer;
+};
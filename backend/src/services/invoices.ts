@@ -0,0 +1,148 @@
+import PDFDocument from 'pdfkit';
+import { Prisma, Invoice } from '@prisma/client';
+
+const formatInvoiceNumber = (year: number, number: number): string => {
+  return `INV-${year}-${String(number).padStart(6, '0')}`;
+};
+
+// Issue the receipt for a completed payment. Safe to call more than once per payment.
+export const issueInvoice = async (tx: Prisma.TransactionClient, paymentId: string): Promise<Invoice> => {
+  const existing = await tx.invoice.findUnique({
+    where: { paymentId }
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  const payment = await tx.payment.findUniqueOrThrow({
+    where: { id: paymentId },
+    include: {
+      installment: true,
+      enrollment: {
+        include: {
+          course: true,
+          student: {
+            include: {
+              user: true
+            }
+          }
+        }
+      }
+    }
+  });
+
+  const { enrollment } = payment;
+  const { student } = enrollment;
+  const paidAt = payment.paidAt ?? new Date();
+  const year = paidAt.getFullYear();
+
+  // Row-locked increment, so concurrent payments get consecutive numbers
+  const counter = await tx.invoiceCounter.upsert({
+    where: { year },
+    create: { year, lastNumber: 1 },
+    update: { lastNumber: { increment: 1 } }
+  });
+
+  const address = [student.address, student.city, student.state, student.country]
+    .filter(Boolean)
+    .join(', ');
+
+  return tx.invoice.create({
+    data: {
+      number: formatInvoiceNumber(year, counter.lastNumber),
+      paymentId: payment.id,
+      enrollmentId: enrollment.id,
+      studentId: student.id,
+      studentName: `${student.user.firstName} ${student.user.lastName}`,
+      studentEmail: student.user.email,
+      studentPhone: student.user.phone,
+      studentAddress: address || null,
+      courseTitle: enrollment.course.title,
+      installmentSequence: payment.installment?.sequence ?? null,
+      listPrice: enrollment.listPrice ?? enrollment.course.price,
+      discountAmount: enrollment.discountAmount,
+      amount: payment.amount,
+      currency: payment.currency,
+      transactionId: payment.providerTransactionId,
+      paymentReference: payment.reference,
+      paymentChannel: payment.channel,
+      paidAt
+    }
+  });
+};
+
+const formatMoney = (amount: number, currency: string): string => {
+  return `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Render an invoice as a PDF document
+export const renderInvoicePdf = (invoice: Invoice): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: `Receipt ${invoice.number}` } });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const issuerName = process.env.INVOICE_ISSUER_NAME || 'ECK Business School';
+    const issuerAddress = process.env.INVOICE_ISSUER_ADDRESS;
+
+    // Header
+    doc.fontSize(20).text(issuerName);
+    if (issuerAddress) {
+      doc.fontSize(10).text(issuerAddress);
+    }
+    doc.moveDown();
+    doc.fontSize(16).text('Payment Receipt');
+    doc.fontSize(10)
+      .text(`Receipt number: ${invoice.number}`)
+      .text(`Issued: ${formatDate(invoice.issuedAt)}`)
+      .text(`Paid: ${formatDate(invoice.paidAt)}`);
+    doc.moveDown();
+
+    // Billed to
+    doc.fontSize(12).text('Billed to');
+    doc.fontSize(10).text(invoice.studentName).text(invoice.studentEmail);
+    if (invoice.studentPhone) {
+      doc.text(invoice.studentPhone);
+    }
+    if (invoice.studentAddress) {
+      doc.text(invoice.studentAddress);
+    }
+    doc.moveDown();
+
+    // Line items
+    const description = invoice.installmentSequence
+      ? `${invoice.courseTitle} (installment ${invoice.installmentSequence})`
+      : invoice.courseTitle;
+
+    doc.fontSize(12).text('Details');
+    doc.fontSize(10).text(`Course: ${description}`);
+    doc.text(`Course price: ${formatMoney(invoice.listPrice, invoice.currency)}`);
+    if (invoice.discountAmount > 0) {
+      doc.text(`Discount: -${formatMoney(invoice.discountAmount, invoice.currency)}`);
+    }
+    doc.moveDown(0.5);
+    doc.fontSize(12).text(`Amount paid: ${formatMoney(invoice.amount, invoice.currency)}`);
+    doc.moveDown();
+
+    // Payment
+    doc.fontSize(12).text('Payment');
+    doc.fontSize(10).text(`Reference: ${invoice.paymentReference}`);
+    if (invoice.transactionId) {
+      doc.text(`Transaction ID: ${invoice.transactionId}`);
+    }
+    if (invoice.paymentChannel) {
+      doc.text(`Method: ${invoice.paymentChannel}`);
+    }
+    doc.moveDown(2);
+
+    doc.fontSize(8).fillColor('gray').text('This receipt was generated electronically and is valid without a signature.');
+
+    doc.end();
+  });
+};
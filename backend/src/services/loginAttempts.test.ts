@@ -0,0 +1,128 @@
+// Just enough of the Prisma client for services/loginAttempts, kept in memory
+const mockUser = {
+  id: 'user-1',
+  failedLoginAttempts: 0,
+  lockoutCount: 0,
+  lockedUntil: null as Date | null
+};
+const mockLockouts: Record<string, any>[] = [];
+const mockQueries: string[] = [];
+
+const mockPrisma: any = {
+  $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    mockQueries.push(strings.join('?'));
+    return values[0] === mockUser.id
+      ? [{ failedLoginAttempts: mockUser.failedLoginAttempts, lockoutCount: mockUser.lockoutCount }]
+      : [];
+  },
+  $transaction: async (work: any) => typeof work === 'function' ? work(mockPrisma) : Promise.all(work),
+  user: {
+    update: async ({ data }: any) => Object.assign(mockUser, data)
+  },
+  accountLockout: {
+    create: async ({ data }: any) => {
+      const row = { unlockedAt: null, unlockedBy: null, ...data };
+      mockLockouts.push(row);
+      return row;
+    },
+    updateMany: async ({ where, data }: any) => {
+      const matched = mockLockouts.filter(row =>
+        row.userId === where.userId && row.unlockedAt === null && row.lockedUntil > where.lockedUntil.gt);
+      matched.forEach(row => Object.assign(row, data));
+      return { count: matched.length };
+    }
+  }
+};
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => mockPrisma)
+}));
+
+// Imported after the mocks are in place
+import { isAccountLocked, recordFailedLogin, resetFailedLogins, unlockAccount } from './loginAttempts';
+
+const MINUTE_MS = 60 * 1000;
+
+// Fail until the account locks (5 attempts by default)
+const failUntilLocked = async () => {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    await recordFailedLogin('user-1', '10.0.0.1');
+  }
+};
+
+// How long the latest lockout lasts, to the nearest minute
+const lockoutMinutes = () => Math.round((mockUser.lockedUntil!.getTime() - Date.now()) / MINUTE_MS);
+
+beforeEach(() => {
+  Object.assign(mockUser, { failedLoginAttempts: 0, lockoutCount: 0, lockedUntil: null });
+  mockLockouts.length = 0;
+  mockQueries.length = 0;
+});
+
+describe('login lockout', () => {
+  it('counts failures below the threshold without locking', async () => {
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await recordFailedLogin('user-1', null);
+    }
+
+    expect(mockUser.failedLoginAttempts).toBe(4);
+    expect(isAccountLocked(mockUser)).toBe(false);
+    expect(mockLockouts).toHaveLength(0);
+  });
+
+  it('locks the user row while counting', async () => {
+    await recordFailedLogin('user-1', null);
+
+    expect(mockQueries[0]).toContain('FOR UPDATE');
+  });
+
+  it('locks the account for 15 minutes on the fifth failure and records it', async () => {
+    await failUntilLocked();
+
+    expect(isAccountLocked(mockUser)).toBe(true);
+    expect(lockoutMinutes()).toBe(15);
+    expect(mockUser).toMatchObject({ failedLoginAttempts: 0, lockoutCount: 1 });
+    expect(mockLockouts).toEqual([
+      expect.objectContaining({ userId: 'user-1', failedAttempts: 5, ipAddress: '10.0.0.1' })
+    ]);
+  });
+
+  it('doubles each consecutive lockout, up to a day', async () => {
+    await failUntilLocked();
+    await failUntilLocked();
+    expect(lockoutMinutes()).toBe(30);
+
+    await failUntilLocked();
+    expect(lockoutMinutes()).toBe(60);
+
+    mockUser.lockoutCount = 20;
+    await failUntilLocked();
+    expect(lockoutMinutes()).toBe(24 * 60);
+  });
+
+  it('treats a lockout as over once it has expired', () => {
+    expect(isAccountLocked({ lockedUntil: new Date(Date.now() - 1000) })).toBe(false);
+    expect(isAccountLocked({ lockedUntil: new Date(Date.now() + 1000) })).toBe(true);
+  });
+
+  it('starts the backoff over after a successful login', async () => {
+    await failUntilLocked();
+    await resetFailedLogins('user-1');
+
+    expect(mockUser).toMatchObject({ failedLoginAttempts: 0, lockoutCount: 0, lockedUntil: null });
+
+    await failUntilLocked();
+    expect(lockoutMinutes()).toBe(15);
+  });
+
+  it('lets an admin unlock the account and records who did', async () => {
+    await failUntilLocked();
+
+    await unlockAccount('user-1', 'admin-1');
+
+    expect(isAccountLocked(mockUser)).toBe(false);
+    expect(mockUser.lockoutCount).toBe(0);
+    expect(mockLockouts[0]).toMatchObject({ unlockedBy: 'admin-1', unlockedAt: expect.any(Date) });
+  });
+});
@@ -0,0 +1,97 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Failed attempts allowed before the account is locked
+const MAX_FAILED_ATTEMPTS = Number(process.env.LOGIN_MAX_ATTEMPTS) || 5;
+// First lockout duration; each consecutive lockout doubles it
+const BASE_LOCKOUT_MS = Number(process.env.LOGIN_LOCKOUT_BASE) || 15 * 60 * 1000; // 15 minutes
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+export const isAccountLocked = (user: { lockedUntil: Date | null }): boolean => {
+  return !!user.lockedUntil && user.lockedUntil > new Date();
+};
+
+// Count a failed login and lock the account once the threshold is reached.
+// The user's row is locked while counting, so concurrent failures cannot slip past the threshold.
+export const recordFailedLogin = async (userId: string, ipAddress: string | null): Promise<void> => {
+  await prisma.$transaction(async (tx) => {
+    const [user] = await tx.$queryRaw<{ failedLoginAttempts: number; lockoutCount: number }[]>`
+      SELECT "failedLoginAttempts", "lockoutCount" FROM "users" WHERE "id" = ${userId} FOR UPDATE
+    `;
+
+    if (!user) {
+      return;
+    }
+
+    const failedAttempts = user.failedLoginAttempts + 1;
+
+    if (failedAttempts < MAX_FAILED_ATTEMPTS) {
+      await tx.user.update({
+        where: { id: userId },
+        data: { failedLoginAttempts: failedAttempts }
+      });
+      return;
+    }
+
+    const lockoutMs = Math.min(BASE_LOCKOUT_MS * 2 ** user.lockoutCount, MAX_LOCKOUT_MS);
+    const lockedUntil = new Date(Date.now() + lockoutMs);
+
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        failedLoginAttempts: 0,
+        lockoutCount: user.lockoutCount + 1,
+        lockedUntil
+      }
+    });
+
+    await tx.accountLockout.create({
+      data: {
+        userId,
+        failedAttempts,
+        ipAddress,
+        lockedUntil
+      }
+    });
+  });
+};
+
+// Clear failure tracking after a successful login
+export const resetFailedLogins = async (userId: string): Promise<void> => {
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      failedLoginAttempts: 0,
+      lockoutCount: 0,
+      lockedUntil: null
+    }
+  });
+};
+
+// Lift a lockout manually (Admin)
+export const unlockAccount = async (userId: string, unlockedBy: string): Promise<void> => {
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        failedLoginAttempts: 0,
+        lockoutCount: 0,
+        lockedUntil: null
+      }
+    }),
+    prisma.accountLockout.updateMany({
+      where: {
+        userId,
+        unlockedAt: null,
+        lockedUntil: { gt: now }
+      },
+      data: {
+        unlockedAt: now,
+        unlockedBy
+      }
+    })
+  ]);
+};
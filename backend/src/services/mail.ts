@@ -0,0 +1,47 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Anything that can deliver a message (SMTP, an HTTP mail API, a test double...)
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Logs messages instead of delivering them (local development)
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log('📧 Mail (console transport):', {
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text
+    });
+  }
+}
+
+// Keeps messages in memory so tests can inspect them
+export class MemoryMailTransport implements MailTransport {
+  sent: (MailMessage & { from: string })[] = [];
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+let transport: MailTransport = new ConsoleMailTransport();
+
+// Swap the active transport (e.g. at startup or in tests)
+export const setMailTransport = (next: MailTransport): void => {
+  transport = next;
+};
+
+export const getMailTransport = (): MailTransport => transport;
+
+// Send a message through the active transport
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  const from = process.env.MAIL_FROM || 'Eck School of Business <no-reply@eckschool.com>';
+  await transport.send({ ...message, from });
+};
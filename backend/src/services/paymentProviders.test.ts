@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import { FakePaymentProvider, PaystackPaymentProvider, PaymentProvider } from './paymentProviders';
+
+const body = Buffer.from(JSON.stringify({ event: 'charge.success', data: { reference: 'ECK-1', amount: 50000 } }));
+
+describe('webhook signatures', () => {
+  it('accepts a Paystack webhook signed with the secret key', () => {
+    const provider = new PaystackPaymentProvider('sk_test');
+    const signature = crypto.createHmac('sha512', 'sk_test').update(body).digest('hex');
+
+    expect(provider.verifyWebhookSignature(body, { 'x-paystack-signature': signature })).toBe(true);
+  });
+
+  it('rejects a Paystack webhook signed with another key, altered, or unsigned', () => {
+    const provider = new PaystackPaymentProvider('sk_test');
+    const signature = crypto.createHmac('sha512', 'sk_other').update(body).digest('hex');
+    const valid = crypto.createHmac('sha512', 'sk_test').update(body).digest('hex');
+    const altered = Buffer.from(body.toString().replace('50000', '1'));
+
+    expect(provider.verifyWebhookSignature(body, { 'x-paystack-signature': signature })).toBe(false);
+    expect(provider.verifyWebhookSignature(altered, { 'x-paystack-signature': valid })).toBe(false);
+    expect(provider.verifyWebhookSignature(body, {})).toBe(false);
+    expect(provider.verifyWebhookSignature(body, { 'x-paystack-signature': 'short' })).toBe(false);
+  });
+
+  it('accepts only fake-provider webhooks signed with its secret', () => {
+    const provider = new FakePaymentProvider('fake-secret');
+    const other = new FakePaymentProvider('other-secret');
+
+    expect(provider.verifyWebhookSignature(body, { 'x-fake-signature': provider.sign(body) })).toBe(true);
+    expect(provider.verifyWebhookSignature(body, { 'x-fake-signature': other.sign(body) })).toBe(false);
+    expect(provider.verifyWebhookSignature(body, {})).toBe(false);
+  });
+
+  it('reads Paystack amounts in major units', () => {
+    const provider = new PaystackPaymentProvider('sk_test');
+    const event = provider.parseWebhookEvent({
+      event: 'charge.success',
+      data: { id: 7, reference: 'ECK-1', amount: 50000, currency: 'NGN' }
+    });
+
+    expect(event).toMatchObject({ type: 'PAYMENT_SUCCEEDED', reference: 'ECK-1', amount: 500, currency: 'NGN' });
+  });
+});
+
+describe('provider selection', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  // A fresh copy of the module, so the provider is chosen again from the environment
+  const loadProvider = async (): Promise<PaymentProvider> => {
+    let provider: PaymentProvider | undefined;
+
+    await jest.isolateModulesAsync(async () => {
+      const { getPaymentProvider } = await import('./paymentProviders');
+      provider = getPaymentProvider();
+    });
+
+    return provider!;
+  };
+
+  it('uses Paystack unless another provider is chosen', async () => {
+    delete process.env.PAYMENT_PROVIDER;
+    process.env.PAYSTACK_SECRET_KEY = 'sk_test';
+    process.env.FAKE_PAYMENT_SECRET = 'fake-secret';
+
+    expect((await loadProvider()).name).toBe('paystack');
+  });
+
+  it('refuses to fall back to the fake provider without a Paystack key', async () => {
+    delete process.env.PAYMENT_PROVIDER;
+    delete process.env.PAYSTACK_SECRET_KEY;
+
+    await expect(loadProvider()).rejects.toThrow('PAYSTACK_SECRET_KEY');
+  });
+
+  it('requires FAKE_PAYMENT_SECRET for the fake provider', async () => {
+    process.env.PAYMENT_PROVIDER = 'fake';
+    delete process.env.FAKE_PAYMENT_SECRET;
+
+    await expect(loadProvider()).rejects.toThrow('FAKE_PAYMENT_SECRET');
+  });
+
+  it('never uses the fake provider in production', async () => {
+    process.env.PAYMENT_PROVIDER = 'fake';
+    process.env.FAKE_PAYMENT_SECRET = 'fake-secret';
+    process.env.NODE_ENV = 'production';
+
+    await expect(loadProvider()).rejects.toThrow('production');
+  });
+
+  it('uses the fake provider when it is chosen and configured', async () => {
+    process.env.PAYMENT_PROVIDER = 'fake';
+    process.env.FAKE_PAYMENT_SECRET = 'fake-secret';
+    process.env.NODE_ENV = 'test';
+
+    expect((await loadProvider()).name).toBe('fake');
+  });
+});
@@ -0,0 +1,246 @@
+import crypto from 'crypto';
+
+export interface CheckoutRequest {
+  reference: string;
+  amount: number; // major units, e.g. naira
+  currency: string;
+  email: string;
+  callbackUrl: string;
+  metadata: Record<string, string>;
+}
+
+export interface CheckoutSession {
+  authorizationUrl: string;
+}
+
+export interface PaymentRefundRequest {
+  reference: string; // the original payment's reference
+  transactionId: string | null;
+  amount: number; // major units; may be less than the payment for partial refunds
+  currency: string;
+  note: string;
+}
+
+export interface PaymentRefund {
+  providerRefundId: string;
+}
+
+// Provider-neutral view of a webhook event
+export interface PaymentWebhookEvent {
+  id: string; // unique per event, used for de-duplication
+  type: 'PAYMENT_SUCCEEDED' | 'PAYMENT_FAILED' | 'PAYMENT_REFUNDED' | 'UNKNOWN';
+  providerEventType: string;
+  reference: string | null;
+  transactionId: string | null;
+  amount: number | null; // major units
+  currency: string | null;
+  channel: string | null;
+  failureReason: string | null;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  initializeCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  refundPayment(request: PaymentRefundRequest): Promise<PaymentRefund>;
+  verifyWebhookSignature(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): boolean;
+  parseWebhookEvent(payload: any): PaymentWebhookEvent;
+}
+
+const headerValue = (headers: Record<string, string | string[] | undefined>, name: string): string | null => {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] ?? null : value ?? null;
+};
+
+// Constant-time comparison of two hex signatures
+const signaturesMatch = (expected: string, received: string | null): boolean => {
+  if (!received || received.length !== expected.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(received));
+};
+
+// Paystack (https://paystack.com/docs/api); amounts are sent in subunits (kobo)
+export class PaystackPaymentProvider implements PaymentProvider {
+  readonly name = 'paystack';
+
+  constructor(
+    private readonly secretKey: string,
+    private readonly baseUrl = 'https://api.paystack.co'
+  ) {}
+
+  async initializeCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const response = await fetch(`${this.baseUrl}/transaction/initialize`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        email: request.email,
+        amount: Math.round(request.amount * 100),
+        currency: request.currency,
+        reference: request.reference,
+        callback_url: request.callbackUrl,
+        metadata: request.metadata
+      })
+    });
+
+    const body: any = await response.json().catch(() => null);
+
+    if (!response.ok || !body?.status) {
+      throw new Error(`Paystack checkout failed: ${body?.message || response.statusText}`);
+    }
+
+    return { authorizationUrl: body.data.authorization_url };
+  }
+
+  // Paystack settles refunds asynchronously and confirms with a refund.processed webhook
+  async refundPayment(request: PaymentRefundRequest): Promise<PaymentRefund> {
+    const response = await fetch(`${this.baseUrl}/refund`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        transaction: request.reference,
+        amount: Math.round(request.amount * 100),
+        currency: request.currency,
+        merchant_note: request.note
+      })
+    });
+
+    const body: any = await response.json().catch(() => null);
+
+    if (!response.ok || !body?.status) {
+      throw new Error(`Paystack refund failed: ${body?.message || response.statusText}`);
+    }
+
+    return { providerRefundId: String(body.data.id) };
+  }
+
+  // Paystack signs the raw body with HMAC-SHA512 using the secret key
+  verifyWebhookSignature(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): boolean {
+    const expected = crypto.createHmac('sha512', this.secretKey).update(rawBody).digest('hex');
+    return signaturesMatch(expected, headerValue(headers, 'x-paystack-signature'));
+  }
+
+  parseWebhookEvent(payload: any): PaymentWebhookEvent {
+    const event = String(payload?.event ?? '');
+    const data = payload?.data ?? {};
+
+    const type = event === 'charge.success' ? 'PAYMENT_SUCCEEDED'
+      : event === 'charge.failed' ? 'PAYMENT_FAILED'
+      : event === 'refund.processed' ? 'PAYMENT_REFUNDED'
+      : 'UNKNOWN';
+
+    // Refund events carry the original charge's reference separately
+    const reference = type === 'PAYMENT_REFUNDED'
+      ? data.transaction_reference ?? data.transaction?.reference ?? null
+      : data.reference ?? null;
+
+    return {
+      // Paystack has no event id; the event name plus the object id is unique per event
+      id: `${event}:${data.id ?? reference}`,
+      type,
+      providerEventType: event,
+      reference,
+      transactionId: data.id !== undefined ? String(data.id) : null,
+      amount: typeof data.amount === 'number' ? data.amount / 100 : null,
+      currency: data.currency ?? null,
+      channel: data.channel ?? null,
+      failureReason: data.gateway_response ?? null
+    };
+  }
+}
+
+// Local provider for development and tests: no network calls, HMAC-SHA256 signed webhooks
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  constructor(private readonly secret: string) {}
+
+  async initializeCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    return {
+      authorizationUrl: `${frontendUrl.replace(/\/$/, '')}/payments/fake-checkout?reference=${encodeURIComponent(request.reference)}`
+    };
+  }
+
+  async refundPayment(request: PaymentRefundRequest): Promise<PaymentRefund> {
+    return { providerRefundId: `fake-refund-${request.reference}` };
+  }
+
+  // Sign a webhook body the way this provider expects (for tests and local tooling)
+  sign(rawBody: Buffer | string): string {
+    return crypto.createHmac('sha256', this.secret).update(rawBody).digest('hex');
+  }
+
+  verifyWebhookSignature(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): boolean {
+    return signaturesMatch(this.sign(rawBody), headerValue(headers, 'x-fake-signature'));
+  }
+
+  // Expects { id, type: 'payment.succeeded' | 'payment.failed' | 'payment.refunded', reference, ... }
+  parseWebhookEvent(payload: any): PaymentWebhookEvent {
+    const event = String(payload?.type ?? '');
+
+    const type = event === 'payment.succeeded' ? 'PAYMENT_SUCCEEDED'
+      : event === 'payment.failed' ? 'PAYMENT_FAILED'
+      : event === 'payment.refunded' ? 'PAYMENT_REFUNDED'
+      : 'UNKNOWN';
+
+    return {
+      id: String(payload?.id ?? ''),
+      type,
+      providerEventType: event,
+      reference: payload?.reference ?? null,
+      transactionId: payload?.transactionId ?? null,
+      amount: typeof payload?.amount === 'number' ? payload.amount : null,
+      currency: payload?.currency ?? null,
+      channel: payload?.channel ?? 'fake',
+      failureReason: payload?.failureReason ?? null
+    };
+  }
+}
+
+// Pick a provider from PAYMENT_PROVIDER (default Paystack). The fake provider must be chosen explicitly.
+const createPaymentProvider = (): PaymentProvider => {
+  const providerName = process.env.PAYMENT_PROVIDER || 'paystack';
+
+  switch (providerName) {
+    case 'paystack':
+      if (!process.env.PAYSTACK_SECRET_KEY) {
+        throw new Error('PAYSTACK_SECRET_KEY is not defined in environment variables');
+      }
+      return new PaystackPaymentProvider(process.env.PAYSTACK_SECRET_KEY, process.env.PAYSTACK_BASE_URL);
+
+    case 'fake':
+      // Anyone who knows the secret can mark payments as paid
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('The fake payment provider cannot be used in production');
+      }
+      if (!process.env.FAKE_PAYMENT_SECRET) {
+        throw new Error('FAKE_PAYMENT_SECRET is not defined in environment variables');
+      }
+      return new FakePaymentProvider(process.env.FAKE_PAYMENT_SECRET);
+
+    default:
+      throw new Error(`Unknown payment provider: ${providerName}`);
+  }
+};
+
+let paymentProvider: PaymentProvider | null = null;
+
+export const getPaymentProvider = (): PaymentProvider => {
+  if (!paymentProvider) {
+    paymentProvider = createPaymentProvider();
+  }
+
+  return paymentProvider;
+};
+
+// Swap the active provider (e.g. in tests)
+export const setPaymentProvider = (provider: PaymentProvider): void => {
+  paymentProvider = provider;
+};
@@ -0,0 +1,363 @@
+import { PaymentWebhookEvent, setPaymentProvider, FakePaymentProvider } from './paymentProviders';
+
+type Row = Record<string, any>;
+
+// Just enough of the Prisma client for services/payments and services/installments, kept in memory
+const mockDb = {
+  payments: [] as Row[],
+  paymentEvents: [] as Row[],
+  enrollments: [] as Row[],
+  installments: [] as Row[],
+  installmentPlans: [] as Row[],
+  locks: [] as string[]
+};
+
+type Table = 'payments' | 'paymentEvents' | 'enrollments' | 'installments';
+
+const mockMatches = (row: Row, where: Row = {}): boolean => {
+  return Object.entries(where).every(([key, condition]) => {
+    // Installments can be filtered on their enrollment
+    if (key === 'enrollment') {
+      return mockMatches(mockDb.enrollments.find(enrollment => enrollment.id === row.enrollmentId)!, condition);
+    }
+
+    const value = row[key];
+
+    if (condition !== null && typeof condition === 'object' && !(condition instanceof Date)) {
+      if ('in' in condition) return condition.in.includes(value);
+      if ('not' in condition) return value !== condition.not;
+      if ('lt' in condition) return value < condition.lt;
+    }
+
+    return value === condition;
+  });
+};
+
+const mockTable = (table: Table, defaults: () => Row = () => ({})) => {
+  const rows = () => mockDb[table];
+
+  const withIncludes = (row: Row, include?: Row): Row => {
+    if (!include?.enrollment) {
+      return row;
+    }
+
+    const enrollment = mockDb.enrollments.find(candidate => candidate.id === row.enrollmentId)!;
+    const installmentPlan = mockDb.installmentPlans.find(plan => plan.id === enrollment.installmentPlanId) ?? null;
+    return { ...row, enrollment: { ...enrollment, installmentPlan } };
+  };
+
+  const create = (data: Row): Row => {
+    const row = { id: `${table}-${rows().length + 1}`, createdAt: new Date(), ...defaults(), ...data };
+    rows().push(row);
+    return row;
+  };
+
+  return {
+    findUnique: async ({ where }: any) => rows().find(row => mockMatches(row, where)) ?? null,
+    findFirst: async ({ where, orderBy }: any) => {
+      const matched = rows().filter(row => mockMatches(row, where));
+      return (orderBy?.createdAt === 'desc' ? matched.reverse() : matched)[0] ?? null;
+    },
+    findMany: async ({ where, include }: any) => {
+      return rows().filter(row => mockMatches(row, where)).map(row => withIncludes(row, include));
+    },
+    count: async ({ where }: any) => rows().filter(row => mockMatches(row, where)).length,
+    create: async ({ data }: any) => create(data),
+    createMany: async ({ data }: any) => ({ count: data.map(create).length }),
+    update: async ({ where, data }: any) => Object.assign(rows().find(row => row.id === where.id)!, data),
+    updateMany: async ({ where, data }: any) => {
+      const matched = rows().filter(row => mockMatches(row, where));
+      matched.forEach(row => Object.assign(row, data));
+      return { count: matched.length };
+    }
+  };
+};
+
+const mockPrisma: any = {
+  $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    mockDb.locks.push(`${strings.join('?')} ${values.join(',')}`);
+    return [];
+  },
+  $transaction: async (fn: (tx: any) => unknown) => fn(mockPrisma),
+  payment: mockTable('payments', () => ({ status: 'PENDING', authorizationUrl: null, installmentId: null })),
+  paymentEvent: {
+    ...mockTable('paymentEvents', () => ({ processedAt: null })),
+    findUnique: async ({ where }: any) => {
+      const { provider, eventId } = where.provider_eventId;
+      return mockDb.paymentEvents.find(event => event.provider === provider && event.eventId === eventId) ?? null;
+    }
+  },
+  enrollment: mockTable('enrollments'),
+  installment: mockTable('installments', () => ({ status: 'SCHEDULED', paidAt: null }))
+};
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => mockPrisma)
+}));
+
+jest.mock('./invoices', () => ({
+  issueInvoice: jest.fn(async () => undefined)
+}));
+
+// Imported after the mocks are in place
+import { issueInvoice } from './invoices';
+import { initiateCheckout, processPaymentEvent } from './payments';
+import { scheduleInstallments, processOverdueInstallments, INSTALLMENT_OVERDUE } from './installments';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addPayment = (overrides: Row = {}) => {
+  const payment = {
+    id: `payment-${mockDb.payments.length + 1}`,
+    enrollmentId: 'enrollment-1',
+    installmentId: null,
+    reference: `ECK-${mockDb.payments.length + 1}`,
+    amount: 500,
+    currency: 'NGN',
+    status: 'PENDING',
+    authorizationUrl: null,
+    createdAt: new Date(),
+    ...overrides
+  };
+  mockDb.payments.push(payment);
+  return payment;
+};
+
+const succeeded = (reference: string, overrides: Partial<PaymentWebhookEvent> = {}): PaymentWebhookEvent => ({
+  id: `evt-${reference}-${Math.random()}`,
+  type: 'PAYMENT_SUCCEEDED',
+  providerEventType: 'payment.succeeded',
+  reference,
+  transactionId: 'txn-1',
+  amount: 500,
+  currency: 'NGN',
+  channel: 'card',
+  failureReason: null,
+  ...overrides
+});
+
+const enrollment = {
+  id: 'enrollment-1',
+  currency: 'NGN',
+  effectivePrice: 500,
+  course: { id: 'course-1', title: 'Accounting', price: 500, currency: 'NGN' }
+};
+const user = { id: 'user-1', email: 'student@example.com' };
+const plan = { id: 'plan-1', amounts: [250, 250], dueOffsetsDays: [0, 30], graceDays: 0 };
+
+beforeAll(() => {
+  setPaymentProvider(new FakePaymentProvider('fake-secret'));
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockDb.payments = [];
+  mockDb.paymentEvents = [];
+  mockDb.installments = [];
+  mockDb.installmentPlans = [plan];
+  mockDb.locks = [];
+  mockDb.enrollments = [{
+    id: 'enrollment-1',
+    status: 'ACTIVE',
+    paymentStatus: 'PENDING',
+    accessOverride: false,
+    installmentPlanId: null,
+    suspensionReason: null
+  }];
+});
+
+describe('payment webhooks', () => {
+  it('completes a payment for the full amount in its currency', async () => {
+    const payment = addPayment();
+
+    const result = await processPaymentEvent('fake', succeeded(payment.reference), {});
+
+    expect(result).toEqual({ duplicate: false, outcome: 'completed' });
+    expect(payment.status).toBe('COMPLETED');
+    expect(mockDb.enrollments[0]!.paymentStatus).toBe('COMPLETED');
+  });
+
+  it('fails a payment when less than the amount due was paid', async () => {
+    const payment = addPayment();
+
+    const result = await processPaymentEvent('fake', succeeded(payment.reference, { amount: 499.99 }), {});
+
+    expect(result.outcome).toBe('amount_mismatch');
+    expect(payment.status).toBe('FAILED');
+    expect(mockDb.enrollments[0]!.paymentStatus).toBe('PENDING');
+  });
+
+  it('fails a payment when the event carries no amount', async () => {
+    const payment = addPayment();
+
+    const result = await processPaymentEvent('fake', succeeded(payment.reference, { amount: null }), {});
+
+    expect(result.outcome).toBe('amount_mismatch');
+    expect(payment.status).toBe('FAILED');
+  });
+
+  it('fails a payment made in another currency', async () => {
+    const payment = addPayment();
+
+    const other = await processPaymentEvent('fake', succeeded(payment.reference, { currency: 'USD' }), {});
+    expect(other.outcome).toBe('amount_mismatch');
+    expect(payment.status).toBe('FAILED');
+
+    const second = addPayment();
+    const missing = await processPaymentEvent('fake', succeeded(second.reference, { currency: null }), {});
+    expect(missing.outcome).toBe('amount_mismatch');
+    expect(second.status).toBe('FAILED');
+  });
+
+  it('accepts the currency in any case', async () => {
+    const payment = addPayment();
+
+    const result = await processPaymentEvent('fake', succeeded(payment.reference, { currency: 'ngn' }), {});
+
+    expect(result.outcome).toBe('completed');
+  });
+
+  it('applies a redelivered event only once', async () => {
+    const payment = addPayment();
+    const event = succeeded(payment.reference);
+
+    await processPaymentEvent('fake', event, {});
+    const again = await processPaymentEvent('fake', event, {});
+
+    expect(again).toEqual({ duplicate: true, outcome: 'duplicate' });
+    expect(issueInvoice).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('refund webhooks', () => {
+  const refunded = (reference: string): PaymentWebhookEvent => ({
+    ...succeeded(reference),
+    type: 'PAYMENT_REFUNDED',
+    providerEventType: 'payment.refunded'
+  });
+
+  it('leaves the enrollment alone when one of several payments is refunded', async () => {
+    mockDb.enrollments[0]!.paymentStatus = 'COMPLETED';
+    const first = addPayment({ status: 'COMPLETED', installmentId: 'installment-1' });
+    addPayment({ status: 'COMPLETED', installmentId: 'installment-2' });
+
+    const result = await processPaymentEvent('fake', refunded(first.reference), {});
+
+    expect(result.outcome).toBe('refunded');
+    expect(first.status).toBe('REFUNDED');
+    expect(mockDb.enrollments[0]!.paymentStatus).toBe('COMPLETED');
+  });
+
+  it('marks the enrollment refunded once no payment still stands', async () => {
+    mockDb.enrollments[0]!.paymentStatus = 'COMPLETED';
+    const first = addPayment({ status: 'COMPLETED', installmentId: 'installment-1' });
+    const second = addPayment({ status: 'COMPLETED', installmentId: 'installment-2' });
+
+    await processPaymentEvent('fake', refunded(first.reference), {});
+    await processPaymentEvent('fake', refunded(second.reference), {});
+
+    expect(mockDb.enrollments[0]!.paymentStatus).toBe('REFUNDED');
+  });
+});
+
+describe('checkout', () => {
+  it('locks the enrollment and starts one payment', async () => {
+    const { payment, resumed } = await initiateCheckout(enrollment, user);
+
+    expect(resumed).toBe(false);
+    expect(payment.authorizationUrl).toContain(payment.reference);
+    expect(mockDb.locks[0]).toContain('FOR UPDATE');
+    expect(mockDb.payments).toHaveLength(1);
+  });
+
+  it('hands back an open checkout instead of creating another payment', async () => {
+    const first = await initiateCheckout(enrollment, user);
+    const second = await initiateCheckout(enrollment, user);
+
+    expect(second.resumed).toBe(true);
+    expect(second.payment.id).toBe(first.payment.id);
+    expect(mockDb.payments).toHaveLength(1);
+  });
+
+  it('refuses a second checkout while the first is still being started', async () => {
+    addPayment();
+
+    await expect(initiateCheckout(enrollment, user)).rejects.toMatchObject({ code: 'CHECKOUT_IN_PROGRESS' });
+    expect(mockDb.payments).toHaveLength(1);
+  });
+
+  it('replaces a checkout that never finished starting', async () => {
+    const stale = addPayment({ createdAt: new Date(Date.now() - 5 * 60 * 1000) });
+
+    const { payment } = await initiateCheckout(enrollment, user);
+
+    expect(stale.status).toBe('FAILED');
+    expect(payment.id).not.toBe(stale.id);
+  });
+});
+
+describe('paying in full next to an installment plan', () => {
+  it('refuses a plan while a full-price checkout is open', async () => {
+    await initiateCheckout(enrollment, user);
+
+    await expect(scheduleInstallments(mockPrisma, 'enrollment-1', plan, 'NGN'))
+      .rejects.toMatchObject({ code: 'PAYMENT_IN_PROGRESS' });
+    expect(mockDb.installments).toHaveLength(0);
+    expect(mockDb.enrollments[0]!.installmentPlanId).toBeNull();
+  });
+
+  it('refuses a plan once the full price is paid', async () => {
+    addPayment({ status: 'COMPLETED' });
+
+    await expect(scheduleInstallments(mockPrisma, 'enrollment-1', plan, 'NGN'))
+      .rejects.toMatchObject({ code: 'ALREADY_PAID' });
+  });
+
+  it('cancels the plan and never suspends a student who paid the full-price checkout', async () => {
+    // Plan chosen first, then the student pays a full-price checkout anyway
+    await scheduleInstallments(mockPrisma, 'enrollment-1', plan, 'NGN');
+    const { payment } = await initiateCheckout(enrollment, user);
+
+    const result = await processPaymentEvent('fake', succeeded(payment.reference), {});
+
+    expect(result.outcome).toBe('completed');
+    expect(mockDb.enrollments[0]!.paymentStatus).toBe('COMPLETED');
+    expect(mockDb.installments.map(installment => installment.status)).toEqual(['CANCELLED', 'CANCELLED']);
+
+    // Long after every installment would have been due
+    mockDb.installments.forEach(installment => {
+      installment.dueDate = new Date(Date.now() - 90 * DAY_MS);
+    });
+
+    expect(await processOverdueInstallments()).toEqual({ overdue: 0, suspended: 0 });
+    expect(mockDb.enrollments[0]!.status).toBe('ACTIVE');
+  });
+
+  it('lifts an overdue suspension when the full price is paid', async () => {
+    await scheduleInstallments(mockPrisma, 'enrollment-1', plan, 'NGN');
+    mockDb.installments[0]!.dueDate = new Date(Date.now() - 10 * DAY_MS);
+
+    expect(await processOverdueInstallments()).toEqual({ overdue: 1, suspended: 1 });
+    expect(mockDb.enrollments[0]!).toMatchObject({ status: 'SUSPENDED', suspensionReason: INSTALLMENT_OVERDUE });
+
+    const payment = addPayment();
+    await processPaymentEvent('fake', succeeded(payment.reference), {});
+
+    expect(mockDb.enrollments[0]!).toMatchObject({ status: 'ACTIVE', suspensionReason: null });
+  });
+
+  it('does not suspend a paid enrollment for installments left overdue', async () => {
+    Object.assign(mockDb.enrollments[0]!, { paymentStatus: 'COMPLETED', installmentPlanId: plan.id });
+    mockDb.installments.push({
+      id: 'installment-1',
+      enrollmentId: 'enrollment-1',
+      sequence: 1,
+      status: 'OVERDUE',
+      dueDate: new Date(Date.now() - 10 * DAY_MS)
+    });
+
+    expect(await processOverdueInstallments()).toEqual({ overdue: 0, suspended: 0 });
+    expect(mockDb.enrollments[0]!.status).toBe('ACTIVE');
+  });
+});
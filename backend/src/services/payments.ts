@@ -0,0 +1,314 @@
+import crypto from 'crypto';
+import { PrismaClient, Prisma, PaymentStatus } from '@prisma/client';
+import { CustomError } from '../middleware/errorHandler';
+import { getPaymentProvider, PaymentWebhookEvent } from './paymentProviders';
+import { recordInstallmentPayment, cancelOpenInstallments } from './installments';
+import { issueInvoice } from './invoices';
+
+const prisma = new PrismaClient();
+
+// Payment status transitions a webhook may cause; anything else is ignored
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  PENDING: ['COMPLETED', 'FAILED'],
+  FAILED: ['COMPLETED'], // a retried charge can still succeed
+  COMPLETED: ['REFUNDED'],
+  REFUNDED: []
+};
+
+// How long a checkout may take to start before its payment is considered abandoned
+const CHECKOUT_START_TIMEOUT_MS = 60 * 1000;
+
+const generatePaymentReference = (): string => {
+  return `ECK-${Date.now().toString(36).toUpperCase()}-${crypto.randomBytes(6).toString('hex').toUpperCase()}`;
+};
+
+// Create a payment for an enrollment (or one of its installments) and start a checkout with the active provider.
+// A checkout that is still open is handed back instead, so paying twice by clicking twice is not possible.
+export const initiateCheckout = async (
+  enrollment: {
+    id: string;
+    currency: string | null;
+    effectivePrice: number | null;
+    course: { id: string; title: string; price: number; currency: string };
+  },
+  user: { id: string; email: string },
+  installment?: { id: string; sequence: number; amount: number; currency: string }
+) => {
+  const provider = getPaymentProvider();
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+  const { payment, resumed } = await prisma.$transaction(async (tx) => {
+    // Checkouts for the same enrollment take turns, so two clicks cannot both create a payment
+    await tx.$queryRaw`SELECT "id" FROM "enrollments" WHERE "id" = ${enrollment.id} FOR UPDATE`;
+
+    const open = await tx.payment.findFirst({
+      where: {
+        enrollmentId: enrollment.id,
+        installmentId: installment?.id ?? null,
+        status: 'PENDING'
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (open?.authorizationUrl) {
+      return { payment: open, resumed: true };
+    }
+
+    if (open) {
+      // Another request is still talking to the provider
+      if (open.createdAt.getTime() > Date.now() - CHECKOUT_START_TIMEOUT_MS) {
+        throw new CustomError('A checkout for this payment is already being started', 409, 'CHECKOUT_IN_PROGRESS');
+      }
+
+      // Left behind by a checkout that never finished starting
+      await tx.payment.update({
+        where: { id: open.id },
+        data: {
+          status: 'FAILED',
+          failureReason: 'Checkout could not be started'
+        }
+      });
+    }
+
+    const created = await tx.payment.create({
+      data: {
+        enrollmentId: enrollment.id,
+        provider: provider.name,
+        reference: generatePaymentReference(),
+        amount: installment?.amount ?? enrollment.effectivePrice ?? enrollment.course.price,
+        currency: installment?.currency ?? enrollment.currency ?? enrollment.course.currency,
+        installmentId: installment?.id ?? null
+      }
+    });
+
+    return { payment: created, resumed: false };
+  });
+
+  if (resumed) {
+    return { payment, resumed };
+  }
+
+  try {
+    const { authorizationUrl } = await provider.initializeCheckout({
+      reference: payment.reference,
+      amount: payment.amount,
+      currency: payment.currency,
+      email: user.email,
+      callbackUrl: process.env.PAYMENT_CALLBACK_URL || `${frontendUrl.replace(/\/$/, '')}/payments/callback`,
+      metadata: {
+        enrollmentId: enrollment.id,
+        courseId: enrollment.course.id,
+        userId: user.id,
+        ...(installment && { installment: String(installment.sequence) })
+      }
+    });
+
+    const started = await prisma.payment.update({
+      where: { id: payment.id },
+      data: { authorizationUrl }
+    });
+
+    return { payment: started, resumed };
+  } catch (error) {
+    console.error('Payment checkout failed:', error);
+
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: 'FAILED',
+        failureReason: 'Checkout could not be started'
+      }
+    });
+
+    throw new CustomError('Payment provider is unavailable, please try again later', 502, 'PAYMENT_PROVIDER_ERROR');
+  }
+};
+
+// Move a payment (and its enrollment) to a new status if the transition is allowed.
+// Returns false when the payment is already past that point.
+const transitionPayment = async (
+  tx: Prisma.TransactionClient,
+  payment: { id: string; enrollmentId: string; status: PaymentStatus },
+  status: PaymentStatus,
+  data: Prisma.PaymentUpdateManyMutationInput
+): Promise<boolean> => {
+  const allowedFrom = (Object.keys(PAYMENT_TRANSITIONS) as PaymentStatus[])
+    .filter(from => PAYMENT_TRANSITIONS[from].includes(status));
+
+  // Conditional update so concurrent events cannot both apply
+  const { count } = await tx.payment.updateMany({
+    where: {
+      id: payment.id,
+      status: { in: allowedFrom }
+    },
+    data: { ...data, status }
+  });
+
+  return count === 1;
+};
+
+// Apply a verified webhook event to its payment
+const applyPaymentEvent = async (tx: Prisma.TransactionClient, event: PaymentWebhookEvent): Promise<string> => {
+  if (event.type === 'UNKNOWN' || !event.reference) {
+    return 'ignored';
+  }
+
+  const payment = await tx.payment.findUnique({
+    where: { reference: event.reference }
+  });
+
+  if (!payment) {
+    return 'unknown_reference';
+  }
+
+  switch (event.type) {
+    case 'PAYMENT_SUCCEEDED': {
+      // Never complete a payment for less than was charged, or in another currency
+      if (
+        event.amount === null
+        || Math.round(event.amount * 100) < Math.round(payment.amount * 100)
+        || event.currency?.toUpperCase() !== payment.currency
+      ) {
+        await transitionPayment(tx, payment, 'FAILED', {
+          failureReason: `Amount mismatch: expected ${payment.amount} ${payment.currency}, ` +
+            `received ${event.amount ?? 'no amount'} ${event.currency ?? 'in no currency'}`
+        });
+        return 'amount_mismatch';
+      }
+
+      const completed = await transitionPayment(tx, payment, 'COMPLETED', {
+        paidAt: new Date(),
+        providerTransactionId: event.transactionId,
+        channel: event.channel,
+        failureReason: null
+      });
+
+      if (!completed) {
+        return 'ignored';
+      }
+
+      // Installment plans are only fully paid once the last installment is. A full-price payment
+      // settles the enrollment, so any installments still open are no longer owed.
+      const { allPaid } = payment.installmentId
+        ? await recordInstallmentPayment(tx, payment.installmentId)
+        : { allPaid: true };
+
+      if (!payment.installmentId) {
+        await cancelOpenInstallments(tx, payment.enrollmentId);
+      }
+
+      await tx.enrollment.update({
+        where: { id: payment.enrollmentId },
+        data: {
+          paymentStatus: allPaid ? 'COMPLETED' : 'PENDING',
+          paymentMethod: event.channel,
+          transactionId: event.transactionId ?? payment.reference
+        }
+      });
+
+      await issueInvoice(tx, payment.id);
+      return allPaid ? 'completed' : 'installment_paid';
+    }
+
+    case 'PAYMENT_FAILED': {
+      const failed = await transitionPayment(tx, payment, 'FAILED', {
+        failureReason: event.failureReason
+      });
+
+      if (!failed) {
+        return 'ignored';
+      }
+
+      // A failed attempt does not undo an enrollment that was already paid
+      await tx.enrollment.updateMany({
+        where: {
+          id: payment.enrollmentId,
+          paymentStatus: 'PENDING'
+        },
+        data: { paymentStatus: 'FAILED' }
+      });
+      return 'failed';
+    }
+
+    case 'PAYMENT_REFUNDED': {
+      const refunded = await transitionPayment(tx, payment, 'REFUNDED', {
+        refundedAt: new Date()
+      });
+
+      if (!refunded) {
+        return 'ignored';
+      }
+
+      // Refunding one installment does not refund the enrollment while other payments still stand
+      const standing = await tx.payment.count({
+        where: {
+          enrollmentId: payment.enrollmentId,
+          status: 'COMPLETED'
+        }
+      });
+
+      if (standing === 0) {
+        await tx.enrollment.update({
+          where: { id: payment.enrollmentId },
+          data: { paymentStatus: 'REFUNDED' }
+        });
+      }
+      return 'refunded';
+    }
+  }
+};
+
+// Record and process a webhook event exactly once; provider retries are acknowledged without reprocessing
+export const processPaymentEvent = async (
+  providerName: string,
+  event: PaymentWebhookEvent,
+  payload: Prisma.InputJsonValue
+): Promise<{ duplicate: boolean; outcome: string }> => {
+  let record = await prisma.paymentEvent.findUnique({
+    where: {
+      provider_eventId: { provider: providerName, eventId: event.id }
+    }
+  });
+
+  if (record?.processedAt) {
+    return { duplicate: true, outcome: 'duplicate' };
+  }
+
+  if (!record) {
+    try {
+      record = await prisma.paymentEvent.create({
+        data: {
+          provider: providerName,
+          eventId: event.id,
+          type: event.providerEventType,
+          reference: event.reference,
+          payload
+        }
+      });
+    } catch (error) {
+      // Another delivery of the same event is being handled concurrently
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { duplicate: true, outcome: 'duplicate' };
+      }
+      throw error;
+    }
+  }
+
+  const eventId = record.id;
+
+  const outcome = await prisma.$transaction(async (tx) => {
+    // Claim the event inside the transaction so it is applied at most once
+    const { count } = await tx.paymentEvent.updateMany({
+      where: { id: eventId, processedAt: null },
+      data: { processedAt: new Date() }
+    });
+
+    if (count === 0) {
+      return 'duplicate';
+    }
+
+    return applyPaymentEvent(tx, event);
+  });
+
+  return { duplicate: outcome === 'duplicate', outcome };
+};
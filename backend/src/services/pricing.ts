@@ -0,0 +1,204 @@
+import { Prisma, DiscountType, Coupon, Scholarship } from '@prisma/client';
+import { CustomError } from '../middleware/errorHandler';
+import { REPORTING_CURRENCY, findExchangeRate, getExchangeRate } from './exchangeRates';
+
+// Prices are in `currency`; couponDiscount stays in the course currency, like the coupon itself
+export interface PriceQuote {
+  currency: string;
+  exchangeRate: number;
+  reportingRate: number | null;
+  listPrice: number;
+  discountAmount: number;
+  effectivePrice: number;
+  couponDiscount: number;
+  coupon: Coupon | null;
+  scholarship: Scholarship | null;
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Discount a discount rule takes off a price (never more than the price itself)
+const discountFor = (rule: { discountType: DiscountType; amount: number }, price: number): number => {
+  const discount = rule.discountType === 'PERCENTAGE'
+    ? price * Math.min(rule.amount, 100) / 100
+    : rule.amount;
+
+  return roundMoney(Math.min(discount, price));
+};
+
+// Load a coupon by code and check it can be used by this student for this course
+const findUsableCoupon = async (
+  tx: Prisma.TransactionClient,
+  code: string,
+  courseId: string,
+  studentId: string
+): Promise<Coupon> => {
+  const coupon = await tx.coupon.findUnique({
+    where: { code: code.trim().toUpperCase() }
+  });
+
+  if (!coupon || !coupon.isActive) {
+    throw new CustomError('This coupon code is not valid', 400, 'INVALID_COUPON');
+  }
+
+  if (coupon.expiresAt && coupon.expiresAt <= new Date()) {
+    throw new CustomError('This coupon code has expired', 400, 'INVALID_COUPON');
+  }
+
+  if (coupon.courseId && coupon.courseId !== courseId) {
+    throw new CustomError('This coupon code is not valid for this course', 400, 'INVALID_COUPON');
+  }
+
+  if (coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions) {
+    throw new CustomError('This coupon code has reached its usage limit', 400, 'INVALID_COUPON');
+  }
+
+  if (coupon.oncePerStudent) {
+    const previous = await tx.couponRedemption.findFirst({
+      where: { couponId: coupon.id, studentId }
+    });
+
+    if (previous) {
+      throw new CustomError('You have already used this coupon code', 400, 'INVALID_COUPON');
+    }
+  }
+
+  return coupon;
+};
+
+// The student's active scholarship worth the most for this course, if any
+const findBestScholarship = async (
+  tx: Prisma.TransactionClient,
+  studentId: string,
+  courseId: string,
+  price: number
+): Promise<Scholarship | null> => {
+  const scholarships = await tx.scholarship.findMany({
+    where: {
+      studentId,
+      isActive: true,
+      OR: [{ courseId }, { courseId: null }],
+      AND: [{ OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] }]
+    }
+  });
+
+  return scholarships.reduce<Scholarship | null>((best, scholarship) => {
+    return !best || discountFor(scholarship, price) > discountFor(best, price) ? scholarship : best;
+  }, null);
+};
+
+// Work out what a student pays for a course: scholarship first, then any coupon on the remainder,
+// converted into the currency they pay in at today's rate
+export const quotePrice = async (
+  tx: Prisma.TransactionClient,
+  params: {
+    studentId: string;
+    course: { id: string; price: number; currency: string };
+    couponCode?: string | undefined;
+    currency?: string | undefined;
+  }
+): Promise<PriceQuote> => {
+  const { studentId, course, couponCode } = params;
+  const listPrice = course.price;
+  const currency = params.currency ?? course.currency;
+
+  const scholarship = await findBestScholarship(tx, studentId, course.id, listPrice);
+  let price = listPrice - (scholarship ? discountFor(scholarship, listPrice) : 0);
+
+  const coupon = couponCode ? await findUsableCoupon(tx, couponCode, course.id, studentId) : null;
+  const couponDiscount = coupon ? discountFor(coupon, price) : 0;
+  price -= couponDiscount;
+
+  const exchangeRate = await getExchangeRate(tx, course.currency, currency);
+  const convertedListPrice = roundMoney(listPrice * exchangeRate);
+  const effectivePrice = roundMoney(Math.max(price, 0) * exchangeRate);
+
+  return {
+    currency,
+    exchangeRate,
+    reportingRate: await findExchangeRate(tx, currency, REPORTING_CURRENCY),
+    listPrice: convertedListPrice,
+    discountAmount: roundMoney(convertedListPrice - effectivePrice),
+    effectivePrice,
+    couponDiscount,
+    coupon,
+    scholarship
+  };
+};
+
+// Count a registration's coupon use against the coupon's cap. This happens on approval, so
+// applications that are never approved do not use coupons up. Fails if the cap was reached,
+// or a once-per-student coupon was used by the student, since the price was quoted.
+export const redeemCoupon = async (
+  tx: Prisma.TransactionClient,
+  registration: { id: string; studentId: string; couponId: string | null; couponDiscount: number }
+): Promise<void> => {
+  if (!registration.couponId) {
+    return;
+  }
+
+  // Registrations submitted before coupons were redeemed on approval already hold their use
+  const existing = await tx.couponRedemption.findUnique({
+    where: { registrationId: registration.id }
+  });
+
+  if (existing) {
+    return;
+  }
+
+  const coupon = await tx.coupon.findUniqueOrThrow({
+    where: { id: registration.couponId }
+  });
+
+  // The conditional increment also locks the coupon row, so concurrent approvals check it in turn
+  const { count } = await tx.coupon.updateMany({
+    where: {
+      id: coupon.id,
+      ...(coupon.maxRedemptions !== null && { redemptionCount: { lt: coupon.maxRedemptions } })
+    },
+    data: { redemptionCount: { increment: 1 } }
+  });
+
+  if (count === 0) {
+    throw new CustomError('The coupon on this registration has reached its usage limit', 409, 'COUPON_UNAVAILABLE');
+  }
+
+  if (coupon.oncePerStudent) {
+    const previous = await tx.couponRedemption.findFirst({
+      where: { couponId: coupon.id, studentId: registration.studentId }
+    });
+
+    if (previous) {
+      throw new CustomError('The student has already used the coupon on this registration', 409, 'COUPON_UNAVAILABLE');
+    }
+  }
+
+  await tx.couponRedemption.create({
+    data: {
+      couponId: coupon.id,
+      studentId: registration.studentId,
+      registrationId: registration.id,
+      discountAmount: registration.couponDiscount
+    }
+  });
+};
+
+// Give a coupon use back when its registration does not go ahead
+export const releaseCoupon = async (tx: Prisma.TransactionClient, registrationId: string): Promise<void> => {
+  const redemption = await tx.couponRedemption.findUnique({
+    where: { registrationId }
+  });
+
+  if (!redemption) {
+    return;
+  }
+
+  await tx.couponRedemption.delete({
+    where: { id: redemption.id }
+  });
+
+  await tx.coupon.update({
+    where: { id: redemption.couponId },
+    data: { redemptionCount: { decrement: 1 } }
+  });
+};
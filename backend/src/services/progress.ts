@@ -0,0 +1,56 @@
+import { Prisma } from '@prisma/client';
+
+// Percentage of completed lessons, clamped to 0-100
+export const calculateProgressPercent = (completedLessons: number, totalLessons: number): number => {
+  if (totalLessons <= 0) {
+    return 0;
+  }
+
+  return Math.min(100, (completedLessons / totalLessons) * 100);
+};
+
+// Count the lessons currently published in a course
+export const countCourseLessons = async (tx: Prisma.TransactionClient, courseId: string): Promise<number> => {
+  return tx.lesson.count({
+    where: {
+      module: {
+        courseId
+      }
+    }
+  });
+};
+
+// Recompute totals for every StudentProgress record of a course.
+// Call this inside the same transaction that adds or removes lessons.
+export const syncCourseProgress = async (tx: Prisma.TransactionClient, courseId: string): Promise<number> => {
+  const totalLessons = await countCourseLessons(tx, courseId);
+
+  const progressRecords = await tx.studentProgress.findMany({
+    where: { courseId },
+    select: {
+      id: true,
+      _count: {
+        select: {
+          lessonProgress: {
+            where: { isCompleted: true }
+          }
+        }
+      }
+    }
+  });
+
+  for (const record of progressRecords) {
+    const completedLessons = record._count.lessonProgress;
+
+    await tx.studentProgress.update({
+      where: { id: record.id },
+      data: {
+        totalLessons,
+        completedLessons,
+        progressPercent: calculateProgressPercent(completedLessons, totalLessons)
+      }
+    });
+  }
+
+  return totalLessons;
+};
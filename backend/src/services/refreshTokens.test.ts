@@ -0,0 +1,117 @@
+// Just enough of the Prisma client for services/refreshTokens, kept in memory
+const mockRefreshTokens: Record<string, any>[] = [];
+
+const mockPrisma: any = {
+  refreshToken: {
+    create: async ({ data }: any) => {
+      const row = { id: `token-${mockRefreshTokens.length + 1}`, usedAt: null, revokedAt: null, ...data };
+      mockRefreshTokens.push(row);
+      return row;
+    },
+    findUnique: async ({ where }: any) => mockRefreshTokens.find(row => row.tokenHash === where.tokenHash) ?? null,
+    updateMany: async ({ where, data }: any) => {
+      const matched = mockRefreshTokens.filter(row => Object.entries(where).every(([key, value]) => row[key] === value));
+      matched.forEach(row => Object.assign(row, data));
+      return { count: matched.length };
+    }
+  }
+};
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => mockPrisma)
+}));
+
+// Imported after the mocks are in place
+import { MemorySessionStore, setSessionStore } from './sessions';
+import { hashToken } from './tokens';
+import { issueRefreshToken, rotateRefreshToken } from './refreshTokens';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let sessions: MemorySessionStore;
+
+const startSession = async () => {
+  const expiresAt = new Date(Date.now() + 30 * DAY_MS);
+
+  await sessions.create({
+    id: 'session-1',
+    userId: 'user-1',
+    createdAt: new Date(),
+    expiresAt,
+    userAgent: null,
+    ipAddress: null
+  });
+
+  return issueRefreshToken('session-1', 'user-1', expiresAt);
+};
+
+beforeEach(() => {
+  mockRefreshTokens.length = 0;
+  sessions = new MemorySessionStore();
+  setSessionStore(sessions);
+});
+
+describe('refresh tokens', () => {
+  it('stores only a hash of the token', async () => {
+    const { token } = await startSession();
+
+    expect(mockRefreshTokens).toHaveLength(1);
+    expect(mockRefreshTokens[0]!.tokenHash).toBe(hashToken(token));
+    expect(JSON.stringify(mockRefreshTokens)).not.toContain(token);
+  });
+
+  it('rotates to a new token that keeps the login\'s expiry', async () => {
+    const { token, expiresAt } = await startSession();
+
+    const rotated = await rotateRefreshToken(token);
+
+    expect(rotated).toMatchObject({ sessionId: 'session-1', userId: 'user-1', expiresAt });
+    expect(rotated.refreshToken).not.toBe(token);
+    expect(mockRefreshTokens[0]!.usedAt).toBeInstanceOf(Date);
+
+    // The new token rotates in turn
+    await expect(rotateRefreshToken(rotated.refreshToken)).resolves.toMatchObject({ sessionId: 'session-1' });
+  });
+
+  it('revokes the whole family and ends the session when a rotated token is reused', async () => {
+    const { token } = await startSession();
+    const rotated = await rotateRefreshToken(token);
+
+    await expect(rotateRefreshToken(token)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_REUSED' });
+
+    expect(mockRefreshTokens.every(row => row.revokedAt instanceof Date)).toBe(true);
+    expect(await sessions.get('session-1')).toBeNull();
+
+    // Whoever holds the newer token is logged out too
+    await expect(rotateRefreshToken(rotated.refreshToken)).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+  });
+
+  it('lets only one of two concurrent uses of a token rotate', async () => {
+    const { token } = await startSession();
+
+    const results = await Promise.allSettled([rotateRefreshToken(token), rotateRefreshToken(token)]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({
+      reason: { code: 'REFRESH_TOKEN_REUSED' }
+    });
+  });
+
+  it('rejects unknown and expired tokens', async () => {
+    await startSession();
+
+    await expect(rotateRefreshToken('not-a-token')).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+
+    const expired = await issueRefreshToken('session-1', 'user-1', new Date(Date.now() - 1000));
+    await expect(rotateRefreshToken(expired.token)).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+  });
+
+  it('stops rotating once the session has been logged out', async () => {
+    const { token } = await startSession();
+
+    await sessions.revoke('session-1');
+
+    await expect(rotateRefreshToken(token)).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+  });
+});
@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { CustomError } from '../middleware/errorHandler';
+import { hashToken } from './tokens';
+import { getSessionStore } from './sessions';
+
+const prisma = new PrismaClient();
+
+// Lifetime of a login; rotations keep the original expiry
+export const REFRESH_TOKEN_TTL_MS = (Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30) * 24 * 60 * 60 * 1000;
+
+// Issue a new opaque refresh token for a session. Only its hash is stored.
+export const issueRefreshToken = async (
+  sessionId: string,
+  userId: string,
+  expiresAt: Date
+): Promise<{ token: string; expiresAt: Date }> => {
+  const token = crypto.randomBytes(48).toString('base64url');
+
+  await prisma.refreshToken.create({
+    data: {
+      sessionId,
+      userId,
+      tokenHash: hashToken(token),
+      expiresAt
+    }
+  });
+
+  return { token, expiresAt };
+};
+
+// Revoke every refresh token of a session and end the session itself
+export const revokeTokenFamily = async (sessionId: string): Promise<void> => {
+  await prisma.refreshToken.updateMany({
+    where: { sessionId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+
+  await getSessionStore().revoke(sessionId, 'REFRESH_TOKEN_REUSE');
+};
+
+// Exchange a refresh token for a new one.
+// Presenting a token that was already rotated revokes the whole family.
+export const rotateRefreshToken = async (token: string) => {
+  const existing = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(token) }
+  });
+
+  if (!existing || existing.revokedAt || existing.expiresAt <= new Date()) {
+    throw new CustomError('Refresh token is invalid or has expired', 401, 'INVALID_REFRESH_TOKEN');
+  }
+
+  // Conditional update: of two concurrent uses, only one can rotate
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { id: existing.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  if (count === 0) {
+    await revokeTokenFamily(existing.sessionId);
+    throw new CustomError('Refresh token reuse detected. Please log in again.', 401, 'REFRESH_TOKEN_REUSED');
+  }
+
+  // Logging out ends the session, which retires its refresh tokens too
+  const session = await getSessionStore().get(existing.sessionId);
+
+  if (!session) {
+    throw new CustomError('Refresh token is invalid or has expired', 401, 'INVALID_REFRESH_TOKEN');
+  }
+
+  const next = await issueRefreshToken(existing.sessionId, existing.userId, existing.expiresAt);
+
+  return {
+    sessionId: existing.sessionId,
+    userId: existing.userId,
+    refreshToken: next.token,
+    expiresAt: next.expiresAt
+  };
+};
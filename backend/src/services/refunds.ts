@@ -0,0 +1,281 @@
+import { PrismaClient, RefundEligibility } from '@prisma/client';
+import { CustomError } from '../middleware/errorHandler';
+import { getPaymentProvider } from './paymentProviders';
+import { promoteWaitlist } from './admissions';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Refund policy: a full refund soon after paying with little of the course taken,
+// a partial refund a while later; past that, refunds are at an admin's discretion.
+// Set REFUND_PARTIAL_DAYS to REFUND_FULL_DAYS to turn partial refunds off.
+const FULL_REFUND_DAYS = Number(process.env.REFUND_FULL_DAYS) || 7;
+const FULL_REFUND_MAX_PROGRESS = Number(process.env.REFUND_FULL_MAX_PROGRESS) || 10; // percent of lessons
+const PARTIAL_REFUND_DAYS = Number(process.env.REFUND_PARTIAL_DAYS) || 30;
+const PARTIAL_REFUND_MAX_PROGRESS = Number(process.env.REFUND_PARTIAL_MAX_PROGRESS) || 50;
+const PARTIAL_REFUND_PERCENT = Number(process.env.REFUND_PARTIAL_PERCENT) || 50; // of the amount paid
+
+export interface RefundEvaluation {
+  eligibility: RefundEligibility;
+  policyNote: string;
+  progressPercent: number;
+  daysSincePayment: number;
+  amountPaid: number;
+  recommendedAmount: number;
+  currency: string;
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Apply the refund policy to what was paid, how long ago, and how far the student got
+export const evaluateRefundPolicy = (params: {
+  amountPaid: number;
+  currency: string;
+  firstPaidAt: Date;
+  progressPercent: number;
+}): RefundEvaluation => {
+  const { amountPaid, currency, firstPaidAt, progressPercent } = params;
+  const daysSincePayment = Math.floor((Date.now() - firstPaidAt.getTime()) / DAY_MS);
+  const base = { progressPercent, daysSincePayment, amountPaid, currency };
+
+  if (daysSincePayment < FULL_REFUND_DAYS && progressPercent < FULL_REFUND_MAX_PROGRESS) {
+    return {
+      ...base,
+      eligibility: 'FULL',
+      policyNote: `Requested within ${FULL_REFUND_DAYS} days of payment with under ${FULL_REFUND_MAX_PROGRESS}% of the course completed`,
+      recommendedAmount: amountPaid
+    };
+  }
+
+  if (daysSincePayment < PARTIAL_REFUND_DAYS && progressPercent < PARTIAL_REFUND_MAX_PROGRESS) {
+    return {
+      ...base,
+      eligibility: 'PARTIAL',
+      policyNote: `Requested within ${PARTIAL_REFUND_DAYS} days of payment with under ${PARTIAL_REFUND_MAX_PROGRESS}% of the course completed; ${PARTIAL_REFUND_PERCENT}% refundable`,
+      recommendedAmount: roundMoney(amountPaid * PARTIAL_REFUND_PERCENT / 100)
+    };
+  }
+
+  return {
+    ...base,
+    eligibility: 'NONE',
+    policyNote: daysSincePayment >= PARTIAL_REFUND_DAYS
+      ? `Requested more than ${PARTIAL_REFUND_DAYS} days after payment`
+      : `More than ${PARTIAL_REFUND_MAX_PROGRESS}% of the course has been completed`,
+    recommendedAmount: 0
+  };
+};
+
+// Open a refund request for one of the student's enrollments
+export const requestRefund = async (userId: string, enrollmentId: string, reason: string) => {
+  const enrollment = await prisma.enrollment.findUnique({
+    where: { id: enrollmentId },
+    include: {
+      student: true,
+      payments: {
+        where: { status: 'COMPLETED' },
+        orderBy: { paidAt: 'asc' }
+      },
+      refundRequests: {
+        where: { status: { in: ['PENDING', 'FAILED'] } }
+      }
+    }
+  });
+
+  if (!enrollment || enrollment.student.userId !== userId) {
+    throw new CustomError('Enrollment not found', 404, 'ENROLLMENT_NOT_FOUND');
+  }
+
+  if (enrollment.status === 'CANCELLED') {
+    throw new CustomError('This enrollment has been cancelled', 400, 'ENROLLMENT_CANCELLED');
+  }
+
+  if (enrollment.refundRequests.length > 0) {
+    throw new CustomError('A refund request for this enrollment is already open', 409, 'REFUND_ALREADY_REQUESTED');
+  }
+
+  const firstPayment = enrollment.payments[0];
+
+  if (!firstPayment) {
+    throw new CustomError('There is no payment to refund for this enrollment', 400, 'NOTHING_TO_REFUND');
+  }
+
+  const progress = await prisma.studentProgress.findUnique({
+    where: {
+      studentId_courseId: {
+        studentId: enrollment.studentId,
+        courseId: enrollment.courseId
+      }
+    }
+  });
+
+  const evaluation = evaluateRefundPolicy({
+    amountPaid: roundMoney(enrollment.payments.reduce((sum, payment) => sum + payment.amount, 0)),
+    currency: firstPayment.currency,
+    firstPaidAt: firstPayment.paidAt ?? firstPayment.createdAt,
+    progressPercent: progress?.progressPercent ?? 0
+  });
+
+  return prisma.refundRequest.create({
+    data: {
+      enrollmentId,
+      requestedBy: userId,
+      reason,
+      ...evaluation
+    }
+  });
+};
+
+// Refund the enrollment's payments through the provider and cancel the enrollment.
+// amount defaults to the policy's recommendation. A request whose refund failed can be approved again;
+// payments already refunded on an earlier attempt are skipped.
+export const approveRefund = async (
+  refundRequestId: string,
+  adminId: string,
+  options: { amount?: number | undefined; note?: string | undefined }
+) => {
+  const existing = await prisma.refundRequest.findUnique({
+    where: { id: refundRequestId }
+  });
+
+  if (!existing) {
+    throw new CustomError('Refund request not found', 404, 'REFUND_REQUEST_NOT_FOUND');
+  }
+
+  const amount = roundMoney(options.amount ?? existing.approvedAmount ?? existing.recommendedAmount);
+
+  if (amount > existing.amountPaid) {
+    throw new CustomError('A refund cannot exceed the amount paid', 400, 'REFUND_EXCEEDS_PAYMENT');
+  }
+
+  // Claim the request so two admins cannot refund it at once
+  const { count } = await prisma.refundRequest.updateMany({
+    where: {
+      id: refundRequestId,
+      status: { in: ['PENDING', 'FAILED'] }
+    },
+    data: {
+      status: 'APPROVED',
+      approvedAmount: amount,
+      reviewedBy: adminId,
+      reviewedAt: new Date(),
+      reviewNote: options.note ?? null,
+      failureReason: null
+    }
+  });
+
+  if (count === 0) {
+    throw new CustomError('This refund request has already been reviewed', 409, 'REFUND_ALREADY_REVIEWED');
+  }
+
+  const payments = await prisma.payment.findMany({
+    where: { enrollmentId: existing.enrollmentId },
+    orderBy: { paidAt: 'desc' }
+  });
+
+  // Refund the most recent payments first until the approved amount is covered
+  let remaining = roundMoney(amount - payments.reduce((sum, payment) => sum + (payment.refundedAmount ?? 0), 0));
+  const provider = getPaymentProvider();
+
+  for (const payment of payments) {
+    if (remaining <= 0) {
+      break;
+    }
+
+    if (payment.status !== 'COMPLETED') {
+      continue;
+    }
+
+    const refundAmount = Math.min(payment.amount, remaining);
+
+    try {
+      const { providerRefundId } = await provider.refundPayment({
+        reference: payment.reference,
+        transactionId: payment.providerTransactionId,
+        amount: refundAmount,
+        currency: payment.currency,
+        note: existing.reason
+      });
+
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: 'REFUNDED',
+          refundedAt: new Date(),
+          refundedAmount: refundAmount,
+          providerRefundId
+        }
+      });
+    } catch (error) {
+      console.error('Refund failed:', error);
+
+      await prisma.refundRequest.update({
+        where: { id: refundRequestId },
+        data: {
+          status: 'FAILED',
+          failureReason: `The payment provider could not refund payment ${payment.reference}`
+        }
+      });
+
+      throw new CustomError('Payment provider is unavailable, please try again later', 502, 'PAYMENT_PROVIDER_ERROR');
+    }
+
+    remaining = roundMoney(remaining - refundAmount);
+  }
+
+  // Cancelling the enrollment revokes access to the course content
+  const [refundRequest, enrollment] = await prisma.$transaction([
+    prisma.refundRequest.update({
+      where: { id: refundRequestId },
+      data: { processedAt: new Date() }
+    }),
+    prisma.enrollment.update({
+      where: { id: existing.enrollmentId },
+      data: {
+        status: 'CANCELLED',
+        accessOverride: false,
+        ...(amount > 0 && { paymentStatus: 'REFUNDED' as const })
+      }
+    })
+  ]);
+
+  // The refund is done either way; a failed promotion is retried by the waitlist scheduler
+  await promoteWaitlist(enrollment.courseId).catch(error => {
+    console.error('Waitlist promotion failed:', error);
+  });
+
+  return refundRequest;
+};
+
+// Turn a refund request down; the enrollment stays as it is
+export const denyRefund = async (refundRequestId: string, adminId: string, note: string) => {
+  const { count } = await prisma.refundRequest.updateMany({
+    where: {
+      id: refundRequestId,
+      status: { in: ['PENDING', 'FAILED'] }
+    },
+    data: {
+      status: 'DENIED',
+      reviewedBy: adminId,
+      reviewedAt: new Date(),
+      reviewNote: note
+    }
+  });
+
+  if (count === 0) {
+    const existing = await prisma.refundRequest.findUnique({
+      where: { id: refundRequestId }
+    });
+
+    if (!existing) {
+      throw new CustomError('Refund request not found', 404, 'REFUND_REQUEST_NOT_FOUND');
+    }
+
+    throw new CustomError('This refund request has already been reviewed', 409, 'REFUND_ALREADY_REVIEWED');
+  }
+
+  return prisma.refundRequest.findUniqueOrThrow({
+    where: { id: refundRequestId }
+  });
+};
@@ -0,0 +1,66 @@
+import { Prisma, RegistrationStatus } from '@prisma/client';
+import { CustomError } from '../middleware/errorHandler';
+
+// Where a registration can go from each status; APPROVED, REJECTED and WITHDRAWN are final
+const REGISTRATION_TRANSITIONS: Record<RegistrationStatus, RegistrationStatus[]> = {
+  PENDING: ['UNDER_REVIEW', 'NEEDS_INFO', 'WAITLISTED', 'APPROVED', 'REJECTED', 'WITHDRAWN'],
+  UNDER_REVIEW: ['NEEDS_INFO', 'WAITLISTED', 'APPROVED', 'REJECTED', 'WITHDRAWN'],
+  NEEDS_INFO: ['UNDER_REVIEW', 'REJECTED', 'WITHDRAWN'],
+  WAITLISTED: ['UNDER_REVIEW', 'APPROVED', 'REJECTED', 'WITHDRAWN'],
+  APPROVED: [],
+  REJECTED: [],
+  WITHDRAWN: []
+};
+
+// Registrations that are still waiting for a decision
+export const OPEN_REGISTRATION_STATUSES: RegistrationStatus[] = ['PENDING', 'UNDER_REVIEW', 'NEEDS_INFO', 'WAITLISTED'];
+
+export const canTransitionRegistration = (from: RegistrationStatus, to: RegistrationStatus): boolean => {
+  return REGISTRATION_TRANSITIONS[from].includes(to);
+};
+
+// Move a registration to a new status and record who did it and why.
+// `data` is written along with the status (e.g. reviewer fields).
+export const transitionRegistration = async (
+  tx: Prisma.TransactionClient,
+  registration: { id: string; status: RegistrationStatus },
+  to: RegistrationStatus,
+  options: {
+    changedBy: string | null;
+    reason?: string | null;
+    data?: Prisma.RegistrationUpdateManyMutationInput;
+  }
+): Promise<void> => {
+  if (!canTransitionRegistration(registration.status, to)) {
+    throw new CustomError(
+      `A registration cannot go from ${registration.status} to ${to}`,
+      400,
+      'INVALID_STATUS_TRANSITION'
+    );
+  }
+
+  // Only move it if nobody else changed its status in the meantime.
+  // Joining the waiting list puts the registration at the back of the queue.
+  const { count } = await tx.registration.updateMany({
+    where: { id: registration.id, status: registration.status },
+    data: {
+      ...options.data,
+      status: to,
+      ...(to === 'WAITLISTED' && { waitlistedAt: new Date(), offeredAt: null, offerExpiresAt: null })
+    }
+  });
+
+  if (count === 0) {
+    throw new CustomError('Registration status has changed, please reload it', 409, 'REGISTRATION_STATUS_CHANGED');
+  }
+
+  await tx.registrationStatusChange.create({
+    data: {
+      registrationId: registration.id,
+      fromStatus: registration.status,
+      toStatus: to,
+      changedBy: options.changedBy,
+      reason: options.reason ?? null
+    }
+  });
+};
@@ -0,0 +1,257 @@
+import Redis from 'ioredis';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface SessionRecord {
+  id: string; // JWT "jti"
+  userId: string;
+  createdAt: Date;
+  expiresAt: Date;
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+// Why a session was revoked (kept for auditing where the store supports it)
+export type RevocationReason =
+  | 'LOGOUT'
+  | 'LOGOUT_ALL'
+  | 'REFRESH_TOKEN_REUSE'
+  | 'PASSWORD_CHANGED'
+  | 'PASSWORD_RESET'
+  | 'USER_SUSPENDED';
+
+export interface SessionStore {
+  create(session: SessionRecord): Promise<void>;
+  // Returns the session only while it is neither revoked nor expired
+  get(sessionId: string): Promise<SessionRecord | null>;
+  revoke(sessionId: string, reason: RevocationReason): Promise<void>;
+  revokeAllForUser(userId: string, reason: RevocationReason, exceptSessionId?: string): Promise<number>;
+  listForUser(userId: string): Promise<SessionRecord[]>;
+}
+
+// Postgres-backed store (default when Redis is not configured)
+export class PrismaSessionStore implements SessionStore {
+  async create(session: SessionRecord): Promise<void> {
+    await prisma.session.create({ data: session });
+  }
+
+  async get(sessionId: string): Promise<SessionRecord | null> {
+    return prisma.session.findFirst({
+      where: {
+        id: sessionId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      select: {
+        id: true,
+        userId: true,
+        createdAt: true,
+        expiresAt: true,
+        userAgent: true,
+        ipAddress: true
+      }
+    });
+  }
+
+  async revoke(sessionId: string, reason: RevocationReason): Promise<void> {
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason }
+    });
+  }
+
+  async revokeAllForUser(userId: string, reason: RevocationReason, exceptSessionId?: string): Promise<number> {
+    const { count } = await prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } })
+      },
+      data: { revokedAt: new Date(), revokedReason: reason }
+    });
+
+    return count;
+  }
+
+  async listForUser(userId: string): Promise<SessionRecord[]> {
+    return prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      select: {
+        id: true,
+        userId: true,
+        createdAt: true,
+        expiresAt: true,
+        userAgent: true,
+        ipAddress: true
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+}
+
+// Redis-backed store; keys expire together with the session
+export class RedisSessionStore implements SessionStore {
+  constructor(private readonly redis: Redis) {}
+
+  private sessionKey(sessionId: string): string {
+    return `session:${sessionId}`;
+  }
+
+  private userKey(userId: string): string {
+    return `user_sessions:${userId}`;
+  }
+
+  async create(session: SessionRecord): Promise<void> {
+    const ttlSeconds = Math.max(1, Math.ceil((session.expiresAt.getTime() - Date.now()) / 1000));
+
+    await this.redis
+      .multi()
+      .set(this.sessionKey(session.id), JSON.stringify(session), 'EX', ttlSeconds)
+      .sadd(this.userKey(session.userId), session.id)
+      .exec();
+  }
+
+  async get(sessionId: string): Promise<SessionRecord | null> {
+    const raw = await this.redis.get(this.sessionKey(sessionId));
+
+    if (!raw) {
+      return null;
+    }
+
+    const parsed = JSON.parse(raw);
+    return {
+      ...parsed,
+      createdAt: new Date(parsed.createdAt),
+      expiresAt: new Date(parsed.expiresAt)
+    };
+  }
+
+  async revoke(sessionId: string): Promise<void> {
+    const session = await this.get(sessionId);
+
+    await this.redis.del(this.sessionKey(sessionId));
+
+    if (session) {
+      await this.redis.srem(this.userKey(session.userId), sessionId);
+    }
+  }
+
+  async revokeAllForUser(userId: string, _reason: RevocationReason, exceptSessionId?: string): Promise<number> {
+    const sessionIds = (await this.redis.smembers(this.userKey(userId)))
+      .filter(id => id !== exceptSessionId);
+
+    if (sessionIds.length === 0) {
+      return 0;
+    }
+
+    const removed = await this.redis.del(...sessionIds.map(id => this.sessionKey(id)));
+    await this.redis.srem(this.userKey(userId), ...sessionIds);
+
+    return removed;
+  }
+
+  async listForUser(userId: string): Promise<SessionRecord[]> {
+    const sessionIds = await this.redis.smembers(this.userKey(userId));
+    const sessions: SessionRecord[] = [];
+    const stale: string[] = [];
+
+    for (const id of sessionIds) {
+      const session = await this.get(id);
+      if (session) {
+        sessions.push(session);
+      } else {
+        stale.push(id);
+      }
+    }
+
+    // Expired sessions leave their ids behind in the user set
+    if (stale.length > 0) {
+      await this.redis.srem(this.userKey(userId), ...stale);
+    }
+
+    return sessions.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+}
+
+// In-memory store for tests and single-process development
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, SessionRecord>();
+
+  async create(session: SessionRecord): Promise<void> {
+    this.sessions.set(session.id, session);
+  }
+
+  async get(sessionId: string): Promise<SessionRecord | null> {
+    const session = this.sessions.get(sessionId);
+
+    if (!session || session.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+
+    return session;
+  }
+
+  async revoke(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async revokeAllForUser(userId: string, _reason: RevocationReason, exceptSessionId?: string): Promise<number> {
+    let count = 0;
+
+    for (const session of this.sessions.values()) {
+      if (session.userId === userId && session.id !== exceptSessionId) {
+        this.sessions.delete(session.id);
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  async listForUser(userId: string): Promise<SessionRecord[]> {
+    const now = Date.now();
+
+    return [...this.sessions.values()]
+      .filter(session => session.userId === userId && session.expiresAt.getTime() > now)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+}
+
+// Pick a store from SESSION_STORE, defaulting to Redis when REDIS_URL is set
+const createSessionStore = (): SessionStore => {
+  const storeType = process.env.SESSION_STORE || (process.env.REDIS_URL ? 'redis' : 'postgres');
+
+  switch (storeType) {
+    case 'redis':
+      if (!process.env.REDIS_URL) {
+        throw new Error('REDIS_URL is not defined in environment variables');
+      }
+      return new RedisSessionStore(new Redis(process.env.REDIS_URL));
+
+    case 'memory':
+      return new MemorySessionStore();
+
+    default:
+      return new PrismaSessionStore();
+  }
+};
+
+let sessionStore: SessionStore | null = null;
+
+export const getSessionStore = (): SessionStore => {
+  if (!sessionStore) {
+    sessionStore = createSessionStore();
+  }
+
+  return sessionStore;
+};
+
+// Swap the active store (e.g. in tests)
+export const setSessionStore = (store: SessionStore): void => {
+  sessionStore = store;
+};
@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+
+// Anywhere uploaded files can be kept (local disk, an S3-compatible bucket, ...)
+export interface FileStorage {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+// Files under a directory on local disk (UPLOAD_PATH)
+export class LocalFileStorage implements FileStorage {
+  readonly name = 'local';
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  // Keys are generated by us, but never let one escape the storage directory
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    // Fail here (ENOENT) rather than midway through a response
+    await fs.promises.access(filePath, fs.constants.R_OK);
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+// Keeps files in memory (tests)
+export class MemoryFileStorage implements FileStorage {
+  readonly name = 'memory';
+  files = new Map<string, { data: Buffer; contentType: string }>();
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    this.files.set(key, { data, contentType });
+  }
+
+  async get(key: string): Promise<Readable> {
+    const file = this.files.get(key);
+
+    if (!file) {
+      throw new Error(`File not found: ${key}`);
+    }
+
+    return Readable.from(file.data);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.files.delete(key);
+  }
+}
+
+// Pick a storage backend from STORAGE_DRIVER (only local disk for now)
+const createFileStorage = (): FileStorage => {
+  const driver = process.env.STORAGE_DRIVER || 'local';
+
+  switch (driver) {
+    case 'local':
+      return new LocalFileStorage(process.env.UPLOAD_PATH || './uploads');
+
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+};
+
+let fileStorage: FileStorage | null = null;
+
+export const getFileStorage = (): FileStorage => {
+  if (!fileStorage) {
+    fileStorage = createFileStorage();
+  }
+
+  return fileStorage;
+};
+
+// Swap the active storage (e.g. in tests)
+export const setFileStorage = (storage: FileStorage): void => {
+  fileStorage = storage;
+};
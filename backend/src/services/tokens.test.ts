@@ -0,0 +1,106 @@
+import { Prisma } from '@prisma/client';
+import { CustomError } from '../middleware/errorHandler';
+import { issueUserToken, consumeUserToken, hashToken } from './tokens';
+
+interface TokenRow {
+  userId: string;
+  type: string;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+}
+
+const matches = (row: TokenRow, where: any): boolean => {
+  return Object.entries(where).every(([key, condition]: [string, any]) => {
+    const value = (row as any)[key];
+
+    if (condition && typeof condition === 'object' && 'gt' in condition) {
+      return value > condition.gt;
+    }
+
+    return value === condition;
+  });
+};
+
+// Just enough of the userToken delegate for services/tokens
+const createTokenStore = () => {
+  const rows: TokenRow[] = [];
+
+  const userToken = {
+    updateMany: async ({ where, data }: any) => {
+      const matched = rows.filter(row => matches(row, where));
+      matched.forEach(row => Object.assign(row, data));
+      return { count: matched.length };
+    },
+    create: async ({ data }: any) => {
+      const row = { usedAt: null, ...data };
+      rows.push(row);
+      return row;
+    },
+    findUniqueOrThrow: async ({ where }: any) => {
+      const row = rows.find(candidate => candidate.tokenHash === where.tokenHash);
+
+      if (!row) {
+        throw new Error('Not found');
+      }
+
+      return row;
+    }
+  };
+
+  return { rows, tx: { userToken } as unknown as Prisma.TransactionClient };
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('user tokens', () => {
+  it('stores only a hash of the token', async () => {
+    const { rows, tx } = createTokenStore();
+
+    const { token } = await issueUserToken(tx, 'user-1', 'ACCOUNT_ACTIVATION', HOUR_MS);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]!.tokenHash).toBe(hashToken(token));
+    expect(rows[0]!.tokenHash).not.toBe(token);
+  });
+
+  it('can be used only once', async () => {
+    const { tx } = createTokenStore();
+    const { token } = await issueUserToken(tx, 'user-1', 'ACCOUNT_ACTIVATION', HOUR_MS);
+
+    const record = await consumeUserToken(tx, token, 'ACCOUNT_ACTIVATION');
+    expect(record.userId).toBe('user-1');
+
+    await expect(consumeUserToken(tx, token, 'ACCOUNT_ACTIVATION')).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+  });
+
+  it('lets only one of two concurrent requests use a token', async () => {
+    const { tx } = createTokenStore();
+    const { token } = await issueUserToken(tx, 'user-1', 'PASSWORD_RESET', HOUR_MS);
+
+    const results = await Promise.allSettled([
+      consumeUserToken(tx, token, 'PASSWORD_RESET'),
+      consumeUserToken(tx, token, 'PASSWORD_RESET')
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+  });
+
+  it('rejects expired tokens and tokens of another type', async () => {
+    const { tx } = createTokenStore();
+    const expired = await issueUserToken(tx, 'user-1', 'PASSWORD_RESET', -1000);
+    const activation = await issueUserToken(tx, 'user-1', 'ACCOUNT_ACTIVATION', HOUR_MS);
+
+    await expect(consumeUserToken(tx, expired.token, 'PASSWORD_RESET')).rejects.toBeInstanceOf(CustomError);
+    await expect(consumeUserToken(tx, activation.token, 'PASSWORD_RESET')).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+  });
+
+  it('invalidates earlier unused tokens of the same type', async () => {
+    const { tx } = createTokenStore();
+    const first = await issueUserToken(tx, 'user-1', 'ACCOUNT_ACTIVATION', HOUR_MS);
+    const second = await issueUserToken(tx, 'user-1', 'ACCOUNT_ACTIVATION', HOUR_MS);
+
+    await expect(consumeUserToken(tx, first.token, 'ACCOUNT_ACTIVATION')).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+    await expect(consumeUserToken(tx, second.token, 'ACCOUNT_ACTIVATION')).resolves.toMatchObject({ userId: 'user-1' });
+  });
+});
@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import { Prisma, TokenType } from '@prisma/client';
+import { CustomError } from '../middleware/errorHandler';
+
+// Hash a raw token for storage and lookup
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Issue a single-use token, invalidating any unused tokens of the same type.
+// Returns the raw token; only its hash is persisted.
+export const issueUserToken = async (
+  tx: Prisma.TransactionClient,
+  userId: string,
+  type: TokenType,
+  ttlMs: number
+): Promise<{ token: string; expiresAt: Date }> => {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + ttlMs);
+
+  await tx.userToken.updateMany({
+    where: { userId, type, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  await tx.userToken.create({
+    data: {
+      userId,
+      type,
+      tokenHash: hashToken(token),
+      expiresAt
+    }
+  });
+
+  return { token, expiresAt };
+};
+
+// Mark a token as used and return its record.
+// Fails with INVALID_TOKEN if it is unknown, already used or expired.
+export const consumeUserToken = async (
+  tx: Prisma.TransactionClient,
+  token: string,
+  type: TokenType
+) => {
+  const tokenHash = hashToken(token);
+  const now = new Date();
+
+  // Conditional update so two concurrent requests cannot both use the token
+  const { count } = await tx.userToken.updateMany({
+    where: {
+      tokenHash,
+      type,
+      usedAt: null,
+      expiresAt: { gt: now }
+    },
+    data: { usedAt: now }
+  });
+
+  if (count === 0) {
+    throw new CustomError('This link is invalid or has expired', 400, 'INVALID_TOKEN');
+  }
+
+  return tx.userToken.findUniqueOrThrow({
+    where: { tokenHash }
+  });
+};
+
+// Build a frontend link that carries a token, e.g. /activate?token=...
+export const buildTokenUrl = (path: string, token: string): string => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  return `${frontendUrl.replace(/\/$/, '')}${path}?token=${encodeURIComponent(token)}`;
+};
@@ -0,0 +1,49 @@
+import { encryptTwoFactorSecret, decryptTwoFactorSecret, generateTwoFactorSecret } from './twoFactor';
+
+describe('two-factor secret encryption', () => {
+  const originalKey = process.env.TWO_FACTOR_ENCRYPTION_KEY;
+
+  beforeEach(() => {
+    process.env.TWO_FACTOR_ENCRYPTION_KEY = 'test-encryption-key';
+  });
+
+  afterAll(() => {
+    process.env.TWO_FACTOR_ENCRYPTION_KEY = originalKey;
+  });
+
+  it('stores the secret encrypted and reads it back', () => {
+    const { secret, storedSecret } = generateTwoFactorSecret('admin@example.com');
+
+    expect(storedSecret).not.toContain(secret);
+    expect(decryptTwoFactorSecret(storedSecret)).toBe(secret);
+  });
+
+  it('uses a fresh IV for every encryption', () => {
+    expect(encryptTwoFactorSecret('JBSWY3DPEHPK3PXP')).not.toBe(encryptTwoFactorSecret('JBSWY3DPEHPK3PXP'));
+  });
+
+  it('rejects tampered ciphertext', () => {
+    const [version, iv, authTag, ciphertext] = encryptTwoFactorSecret('JBSWY3DPEHPK3PXP').split(':');
+    const tampered = Buffer.from(ciphertext!, 'base64');
+    tampered[0] = tampered[0]! ^ 1;
+
+    expect(() => decryptTwoFactorSecret([version, iv, authTag, tampered.toString('base64')].join(':'))).toThrow();
+  });
+
+  it('cannot be decrypted with another key', () => {
+    const stored = encryptTwoFactorSecret('JBSWY3DPEHPK3PXP');
+    process.env.TWO_FACTOR_ENCRYPTION_KEY = 'another-key';
+
+    expect(() => decryptTwoFactorSecret(stored)).toThrow();
+  });
+
+  it('refuses to encrypt without a key', () => {
+    delete process.env.TWO_FACTOR_ENCRYPTION_KEY;
+
+    expect(() => encryptTwoFactorSecret('JBSWY3DPEHPK3PXP')).toThrow(/TWO_FACTOR_ENCRYPTION_KEY/);
+  });
+
+  it('still reads secrets saved before encryption', () => {
+    expect(decryptTwoFactorSecret('JBSWY3DPEHPK3PXP')).toBe('JBSWY3DPEHPK3PXP');
+  });
+});
@@ -0,0 +1,241 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { hashToken } from './tokens';
+
+const prisma = new PrismaClient();
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // accept one step either side for clock drift
+const BACKUP_CODE_COUNT = 10;
+
+// Challenge tokens handed out by /login while the second factor is pending
+export const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+// Secrets are stored encrypted (AES-256-GCM) as "v1:<iv>:<auth tag>:<ciphertext>", base64 parts
+const SECRET_FORMAT_VERSION = 'v1';
+
+const secretEncryptionKey = (): Buffer => {
+  const key = process.env.TWO_FACTOR_ENCRYPTION_KEY;
+
+  if (!key) {
+    throw new Error('TWO_FACTOR_ENCRYPTION_KEY is not defined in environment variables');
+  }
+
+  // Any long random string works; hash it to the 32 bytes AES-256 needs
+  return crypto.createHash('sha256').update(key).digest();
+};
+
+// Encrypt a TOTP secret for User.twoFactorSecret, so a database read alone cannot bypass 2FA
+export const encryptTwoFactorSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', secretEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return [
+    SECRET_FORMAT_VERSION,
+    iv.toString('base64'),
+    cipher.getAuthTag().toString('base64'),
+    ciphertext.toString('base64')
+  ].join(':');
+};
+
+export const decryptTwoFactorSecret = (stored: string): string => {
+  const [version, iv, authTag, ciphertext] = stored.split(':');
+
+  // Secrets saved before encryption was introduced are plain base32
+  if (version !== SECRET_FORMAT_VERSION || !iv || !authTag || !ciphertext) {
+    return stored;
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', secretEncryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final()
+  ]).toString('utf8');
+};
+
+// Admins must use two-factor authentication; everyone else can opt in
+export const isTwoFactorRequired = (user: { role: string; twoFactorEnabled: boolean }): boolean => {
+  return user.twoFactorEnabled || user.role === 'ADMIN';
+};
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      continue;
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+// RFC 4226 HOTP value for a counter
+const generateHotp = (secret: Buffer, counter: number): string => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', secret).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1]! & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+  return binary.toString().padStart(TOTP_DIGITS, '0');
+};
+
+const currentTimeStep = (): number => Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+
+// Find the time step a TOTP code belongs to, or null if it matches none in the window
+const matchTotpStep = (secret: string, code: string): number | null => {
+  const key = base32Decode(secret);
+  const step = currentTimeStep();
+
+  for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+    const candidate = generateHotp(key, step + drift);
+    if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(code))) {
+      return step + drift;
+    }
+  }
+
+  return null;
+};
+
+// New random secret plus the otpauth:// URI authenticator apps scan as a QR code.
+// `storedSecret` is the encrypted form to save in User.twoFactorSecret.
+export const generateTwoFactorSecret = (email: string): { secret: string; storedSecret: string; otpauthUrl: string } => {
+  const secret = base32Encode(crypto.randomBytes(20));
+  const issuer = process.env.TWO_FACTOR_ISSUER || 'Eck School of Business';
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(email)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+
+  return {
+    secret,
+    storedSecret: encryptTwoFactorSecret(secret),
+    otpauthUrl: `otpauth://totp/${label}?${params.toString()}`
+  };
+};
+
+const normalizeBackupCode = (code: string): string => code.replace(/[\s-]/g, '').toUpperCase();
+
+// Replace a user's backup codes; returns the raw codes (only hashes are stored)
+export const generateBackupCodes = async (userId: string): Promise<string[]> => {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const raw = base32Encode(crypto.randomBytes(5)); // 8 characters
+    return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+  });
+
+  await prisma.$transaction([
+    prisma.backupCode.deleteMany({
+      where: { userId }
+    }),
+    prisma.backupCode.createMany({
+      data: codes.map(code => ({ userId, codeHash: hashToken(normalizeBackupCode(code)) }))
+    })
+  ]);
+
+  return codes;
+};
+
+// Verify a TOTP code against the user's secret. Each time step is accepted once.
+export const verifyTotpCode = async (
+  user: { id: string; twoFactorSecret: string | null },
+  code: string
+): Promise<boolean> => {
+  if (!user.twoFactorSecret || !/^\d{6}$/.test(code)) {
+    return false;
+  }
+
+  const step = matchTotpStep(decryptTwoFactorSecret(user.twoFactorSecret), code);
+  if (step === null) {
+    return false;
+  }
+
+  // Conditional update so the same code cannot be used twice
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [
+        { twoFactorLastStep: null },
+        { twoFactorLastStep: { lt: step } }
+      ]
+    },
+    data: { twoFactorLastStep: step }
+  });
+
+  return count === 1;
+};
+
+// Verify and use up a backup code
+export const useBackupCode = async (userId: string, code: string): Promise<boolean> => {
+  const { count } = await prisma.backupCode.updateMany({
+    where: {
+      userId,
+      codeHash: hashToken(normalizeBackupCode(code)),
+      usedAt: null
+    },
+    data: { usedAt: new Date() }
+  });
+
+  return count === 1;
+};
+
+// Accept either a TOTP code or, once two-factor is enabled, a backup code
+export const verifySecondFactor = async (
+  user: { id: string; twoFactorEnabled: boolean; twoFactorSecret: string | null },
+  code: string
+): Promise<boolean> => {
+  if (/^\d{6}$/.test(code)) {
+    return verifyTotpCode(user, code);
+  }
+
+  return user.twoFactorEnabled && useBackupCode(user.id, code);
+};
+
+export const countRemainingBackupCodes = async (userId: string): Promise<number> => {
+  return prisma.backupCode.count({
+    where: { userId, usedAt: null }
+  });
+};